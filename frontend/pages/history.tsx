@@ -0,0 +1,242 @@
+import Head from 'next/head'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useState, useEffect } from 'react'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { WalletMultiButton } from '@solana/wallet-adapter-react-ui'
+import axios from 'axios'
+
+// Types
+type LaunchStatus = 'prepared' | 'completed' | 'failed'
+
+interface WalletLaunch {
+  mintAddress: string
+  name: string
+  symbol: string
+  image?: string
+  status: LaunchStatus
+  signatures: string[]
+  explorerUrls: {
+    token: string
+    transactions: string[]
+  }
+  error?: string
+  createdAt: number
+  updatedAt: number
+}
+
+interface WalletLaunchesResponse {
+  wallet: string
+  launches: WalletLaunch[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+const PAGE_SIZE = 10
+
+const STATUS_STYLES: Record<LaunchStatus, string> = {
+  completed: 'bg-green-100 text-green-700',
+  prepared: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700',
+}
+
+export default function History() {
+  const { publicKey, connected } = useWallet()
+  const [mounted, setMounted] = useState(false)
+  const [launches, setLaunches] = useState<WalletLaunch[]>([])
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(0)
+  const [sort, setSort] = useState<'createdAt' | 'name' | 'symbol'>('createdAt')
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  useEffect(() => {
+    if (!publicKey) {
+      setLaunches([])
+      return
+    }
+
+    const loadLaunches = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await axios.get<WalletLaunchesResponse>(
+          `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/token/by-wallet/${publicKey.toString()}`,
+          { params: { page, limit: PAGE_SIZE, sort, order } }
+        )
+        setLaunches(response.data.launches)
+        setTotalPages(response.data.pagination.totalPages)
+      } catch (err) {
+        console.error('❌ Failed to load launch history:', err)
+        setError('Could not load your launches')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadLaunches()
+  }, [publicKey, page, sort, order])
+
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [field, direction] = e.target.value.split(':')
+    setSort(field as typeof sort)
+    setOrder(direction as typeof order)
+    setPage(1)
+  }
+
+  if (!mounted) {
+    return null
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Launchium - My Launches</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.svg" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="border-b border-gray-200 bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+          <div className="container mx-auto px-6 py-4">
+            <div className="flex items-center justify-between">
+              <Link href="/" className="flex items-center space-x-3">
+                <Image src="/logo.png" alt="Launchium" width={32} height={32} className="h-8 w-8" />
+                <span className="text-2xl font-bold gradient-text">Launchium</span>
+              </Link>
+              <WalletMultiButton className="!rounded-lg !px-6 !py-3" />
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-6 py-12">
+          <div className="max-w-4xl mx-auto">
+            <div className="flex items-center justify-between mb-8">
+              <h1 className="text-3xl font-bold gradient-text">My Launches</h1>
+              <select
+                value={`${sort}:${order}`}
+                onChange={handleSortChange}
+                className="px-4 py-2 input-light"
+              >
+                <option value="createdAt:desc">Newest first</option>
+                <option value="createdAt:asc">Oldest first</option>
+                <option value="name:asc">Name (A-Z)</option>
+                <option value="symbol:asc">Symbol (A-Z)</option>
+              </select>
+            </div>
+
+            {!connected && (
+              <div className="card-light rounded-2xl p-8 text-center text-gray-600">
+                Connect your wallet to see the tokens you launched.
+              </div>
+            )}
+
+            {connected && error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+            )}
+
+            {connected && !error && !loading && launches.length === 0 && (
+              <div className="card-light rounded-2xl p-8 text-center text-gray-600">
+                No launches yet. <Link href="/" className="gradient-text font-semibold">Create your first token</Link>
+              </div>
+            )}
+
+            {connected && loading && (
+              <div className="text-center text-gray-500 py-8">Loading launches...</div>
+            )}
+
+            {connected && !loading && launches.length > 0 && (
+              <div className="space-y-4">
+                {launches.map((launch) => (
+                  <div key={launch.mintAddress} className="card-light rounded-2xl p-6">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-center space-x-4">
+                        {launch.image ? (
+                          <img src={launch.image} alt={launch.symbol} className="w-12 h-12 rounded-full object-cover" />
+                        ) : (
+                          <div className="w-12 h-12 rounded-full gradient-primary" />
+                        )}
+                        <div>
+                          <div className="font-semibold text-gray-900">
+                            {launch.name} <span className="text-gray-500">({launch.symbol})</span>
+                          </div>
+                          <div className="text-xs text-gray-500 font-mono break-all">{launch.mintAddress}</div>
+                          <div className="text-xs text-gray-400 mt-1">
+                            {new Date(launch.createdAt).toLocaleString()}
+                          </div>
+                        </div>
+                      </div>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[launch.status]}`}>
+                        {launch.status}
+                      </span>
+                    </div>
+
+                    {launch.error && (
+                      <div className="mt-3 text-sm text-red-600">{launch.error}</div>
+                    )}
+
+                    <div className="mt-4 flex flex-wrap gap-3 text-sm">
+                      {launch.status === 'completed' && (
+                        <a
+                          href={launch.explorerUrls.token}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="px-4 py-2 btn-gradient text-white rounded-lg"
+                        >
+                          View Token
+                        </a>
+                      )}
+                      {launch.explorerUrls.transactions.map((url, index) => (
+                        <a
+                          key={url}
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="px-4 py-2 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                        >
+                          Transaction {index + 1}
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {connected && totalPages > 1 && (
+              <div className="flex items-center justify-center space-x-4 mt-8">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || loading}
+                  className="px-4 py-2 border border-gray-200 rounded-lg disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages || loading}
+                  className="px-4 py-2 border border-gray-200 rounded-lg disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,9 +1,10 @@
 import Head from 'next/head'
 import Image from 'next/image'
+import Link from 'next/link'
 import { useState, useEffect } from 'react'
 import { useWallet } from '@solana/wallet-adapter-react'
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui'
-import { Transaction } from '@solana/web3.js'
+import { Transaction, VersionedTransaction } from '@solana/web3.js'
 import axios from 'axios'
 
 // Types
@@ -17,12 +18,16 @@ interface LaunchTokenRequest {
   website?: string
   twitter?: string
   telegram?: string
+  supply?: string
+  decimals?: number
+  transactionVersion?: 'legacy' | 0
 }
 
 interface PrepareTokenResponse {
   success: boolean
   sessionId: string
   mintAddress: string
+  transactionVersion: 'legacy' | 0
   transaction: string
   message: string
 }
@@ -31,12 +36,54 @@ interface LaunchTokenResponse {
   success: boolean
   mintAddress: string
   userTokenAccount: string
+  decimals: number
+  totalSupply: string
   userBalance: string
   fee: string
   explorerUrl: string
+  tokenExplorerUrl: string
+  tokenAccountExplorerUrl: string
   message?: string
 }
 
+// One step of /session/:id/events
+interface LaunchStepStatus {
+  step: string
+  status: string
+  signature?: string
+  explorerUrls?: string[]
+}
+
+interface LaunchSessionStatus {
+  status: string
+  steps: LaunchStepStatus[]
+  error?: string
+  result?: LaunchTokenResponse
+}
+
+// Background launch from /execute, see /api/token/jobs/:id
+interface LaunchJob {
+  id: string
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  attempts: number
+  maxAttempts: number
+  result?: LaunchTokenResponse
+  error?: string
+}
+
+const JOB_POLL_INTERVAL_MS = 2000
+
+const STEP_LABELS: Record<string, string> = {
+  create_mint: 'Create mint',
+  user_transaction: 'Send your transaction',
+  thaw_account: 'Thaw token account',
+  mint_to: 'Mint supply',
+  create_vesting: 'Create vesting escrows',
+  create_metadata: 'Write metadata',
+  revoke_mint_authority: 'Revoke mint authority',
+  revoke_freeze_authority: 'Revoke freeze authority'
+}
+
 export default function Home() {
   const { publicKey, connected, signTransaction } = useWallet()
   const [mounted, setMounted] = useState(false)
@@ -46,7 +93,9 @@ export default function Home() {
     description: '',
     website: '',
     twitter: '',
-    telegram: ''
+    telegram: '',
+    supply: '1000000000',
+    decimals: '9'
   })
   const [loading, setLoading] = useState(false)
   const [step, setStep] = useState<'form' | 'signing' | 'executing' | 'completed'>('form')
@@ -55,6 +104,8 @@ export default function Home() {
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [uploadProgress, setUploadProgress] = useState(0)
+  const [launchSteps, setLaunchSteps] = useState<LaunchStepStatus[]>([])
+  const [retryJob, setRetryJob] = useState<LaunchJob | null>(null)
 
   // Handle client-side mounting
   useEffect(() => {
@@ -70,12 +121,54 @@ export default function Home() {
         description: '',
         website: '',
         twitter: '',
-        telegram: ''
+        telegram: '',
+        supply: '1000000000',
+        decimals: '9'
       })
       setResult(null)
     }
   }, [])
 
+  // Shows the launch's steps from its progress stream, which closes when an attempt ends
+  const watchLaunch = (sessionId: string) => {
+    const source = new EventSource(
+      `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/token/session/${sessionId}/events`
+    )
+    source.addEventListener('status', (event) => {
+      setLaunchSteps((JSON.parse((event as MessageEvent).data) as LaunchSessionStatus).steps)
+    })
+    source.addEventListener('step', (event) => {
+      const update: LaunchStepStatus = JSON.parse((event as MessageEvent).data)
+      setLaunchSteps(steps => steps.map(item => item.step === update.step ? update : item))
+    })
+    source.addEventListener('done', (event) => {
+      setLaunchSteps((JSON.parse((event as MessageEvent).data) as LaunchSessionStatus).steps)
+      source.close()
+    })
+    return source
+  }
+
+  // Polls the launch job until it finishes, reopening the progress stream when a retry starts
+  const waitForJob = async (jobId: string, sessionId: string): Promise<LaunchTokenResponse> => {
+    let progress = watchLaunch(sessionId)
+    try {
+      for (;;) {
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+        const { data: job } = await axios.get<LaunchJob>(
+          `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/token/jobs/${jobId}`
+        )
+        if (job.status === 'completed' && job.result) return job.result
+        if (job.status === 'failed') throw new Error(job.error || 'Token creation failed')
+        if (job.status === 'running' && progress.readyState === EventSource.CLOSED) {
+          setRetryJob(job)
+          progress = watchLaunch(sessionId)
+        }
+      }
+    } finally {
+      progress.close()
+    }
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
     
@@ -145,6 +238,15 @@ export default function Home() {
       setError('Description must be 200 characters or less')
       return false
     }
+    if (!/^\d+$/.test(formData.supply) || BigInt(formData.supply) === BigInt(0)) {
+      setError('Supply must be a whole number greater than zero')
+      return false
+    }
+    const decimals = Number(formData.decimals)
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 9) {
+      setError('Decimals must be between 0 and 9')
+      return false
+    }
     return true
   }
 
@@ -164,6 +266,8 @@ export default function Home() {
     setError(null)
     setResult(null)
     setUploadProgress(0)
+    setLaunchSteps([])
+    setRetryJob(null)
     setStep('form')
 
     try {
@@ -193,7 +297,10 @@ export default function Home() {
         userWallet: publicKey.toString(),
         name: formData.name.trim(),
         symbol: formData.symbol.trim().toUpperCase(),
-        description: formData.description.trim()
+        description: formData.description.trim(),
+        supply: formData.supply,
+        decimals: Number(formData.decimals),
+        transactionVersion: 0
       }
 
       if (imageUpload) {
@@ -233,8 +340,10 @@ export default function Home() {
       // STEP 3: User signs transaction
       console.log('📝 Requesting user signature...')
       
-      const transaction = Transaction.from(Buffer.from(prepareResponse.data.transaction, 'base64'))
-      const signedTransaction = await signTransaction(transaction)
+      const serializedTransaction = Buffer.from(prepareResponse.data.transaction, 'base64')
+      const signedTransaction = prepareResponse.data.transactionVersion === 0
+        ? await signTransaction(VersionedTransaction.deserialize(serializedTransaction))
+        : await signTransaction(Transaction.from(serializedTransaction))
       
       console.log('✅ Transaction signed by user')
       setStep('executing')
@@ -242,19 +351,20 @@ export default function Home() {
       // STEP 4: Execute signed transaction
       console.log('⚡ Executing token creation...')
       
-      const executeResponse = await axios.post<LaunchTokenResponse>(
+      const jobResponse = await axios.post<LaunchJob>(
         `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/token/execute`,
         {
           sessionId: prepareResponse.data.sessionId,
-          signedTransaction: signedTransaction.serialize().toString('base64')
+          signedTransaction: Buffer.from(signedTransaction.serialize()).toString('base64')
         },
         {
-          timeout: 120000,
+          timeout: 30000,
         }
       )
+      const launchResult = await waitForJob(jobResponse.data.id, prepareResponse.data.sessionId)
       
       setUploadProgress(100)
-      setResult(executeResponse.data)
+      setResult(launchResult)
       setStep('completed')
       
       // Clear form on success
@@ -264,7 +374,9 @@ export default function Home() {
         description: '',
         website: '',
         twitter: '',
-        telegram: ''
+        telegram: '',
+        supply: '1000000000',
+        decimals: '9'
       })
       setImageFile(null)
       setImagePreview(null)
@@ -325,7 +437,14 @@ export default function Home() {
                 <Image src="/logo.png" alt="Launchium" width={32} height={32} className="h-8 w-8" />
                 <span className="text-2xl font-bold gradient-text">Launchium</span>
               </div>
-              <WalletMultiButton className="!rounded-lg !px-6 !py-3" />
+              <div className="flex items-center space-x-6">
+                {connected && (
+                  <Link href="/history" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                    My Launches
+                  </Link>
+                )}
+                <WalletMultiButton className="!rounded-lg !px-6 !py-3" />
+              </div>
             </div>
           </div>
         </header>
@@ -415,6 +534,36 @@ export default function Home() {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <label className="block text-sm font-medium mb-2 text-gray-700">Total Supply *</label>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        name="supply"
+                        value={formData.supply}
+                        onChange={handleInputChange}
+                        placeholder="e.g. 1000000000"
+                        className="w-full px-4 py-3 input-light"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-2 text-gray-700">Decimals *</label>
+                      <input
+                        type="number"
+                        name="decimals"
+                        value={formData.decimals}
+                        onChange={handleInputChange}
+                        min={0}
+                        max={9}
+                        className="w-full px-4 py-3 input-light"
+                        required
+                      />
+                    </div>
+                  </div>
+
                   {/* Optional Fields */}
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div>
@@ -508,6 +657,7 @@ export default function Home() {
                           {step === 'form' && 'Preparing...'}
                           {step === 'signing' && 'Waiting for signature...'}
                           {step === 'executing' && 'Creating token...'}
+                          {step === 'executing' && retryJob && ` Retrying, attempt ${retryJob.attempts} of ${retryJob.maxAttempts}`}
                           {step === 'completed' && 'Completed!'}
                         </span>
                         {uploadProgress > 0 && (
@@ -519,7 +669,7 @@ export default function Home() {
                           className="gradient-primary h-2 rounded-full transition-all duration-300"
                           style={{ 
                             width: step === 'signing' ? '90%' : 
-                                   step === 'executing' ? '95%' : 
+                                   step === 'executing' ? `${90 + Math.round(10 * launchSteps.filter(item => item.status === 'completed').length / Math.max(launchSteps.length, 1))}%` : 
                                    step === 'completed' ? '100%' : 
                                    `${uploadProgress}%` 
                           }}
@@ -528,6 +678,40 @@ export default function Home() {
                     </div>
                   )}
 
+                  {/* Launch Steps */}
+                  {loading && step === 'executing' && launchSteps.length > 0 && (
+                    <ol className="space-y-2 text-sm">
+                      {launchSteps.map(item => (
+                        <li key={item.step} className="flex items-center justify-between">
+                          <span className="flex items-center gap-2">
+                            {item.status === 'completed' ? (
+                              <span className="text-green-600">✓</span>
+                            ) : item.status === 'failed' ? (
+                              <span className="text-red-600">✗</span>
+                            ) : item.status === 'pending' ? (
+                              <span className="text-gray-300">○</span>
+                            ) : (
+                              <span className="inline-block w-3 h-3 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                            )}
+                            <span className={item.status === 'pending' ? 'text-gray-400' : 'text-gray-700'}>
+                              {STEP_LABELS[item.step] || item.step}
+                            </span>
+                          </span>
+                          {item.signature && item.explorerUrls && (
+                            <a
+                              href={item.explorerUrls[item.explorerUrls.length - 1]}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-xs text-blue-600 hover:underline"
+                            >
+                              {item.signature.slice(0, 8)}…
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
                   {/* Launch Button */}
                   <button
                     type="submit"
@@ -565,7 +749,7 @@ export default function Home() {
                     
                     <div className="flex justify-between">
                       <span className="text-gray-700">Your Balance:</span>
-                      <span className="text-green-800">{(Number(result.userBalance) / 1e9).toLocaleString('en-US')} tokens</span>
+                      <span className="text-green-800">{(Number(result.userBalance) / 10 ** result.decimals).toLocaleString('en-US')} tokens</span>
                     </div>
                     
                     <div className="flex justify-between">
@@ -576,7 +760,7 @@ export default function Home() {
 
                   <div className="mt-6 flex flex-wrap gap-3">
                     <a
-                      href={`https://solana.fm/address/${result.mintAddress}?cluster=mainnet-beta`}
+                      href={result.tokenExplorerUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="px-4 py-2 btn-gradient text-white rounded-lg text-sm"
@@ -585,7 +769,7 @@ export default function Home() {
                     </a>
                     
                     <a
-                      href={`https://solana.fm/address/${result.userTokenAccount}?cluster=mainnet-beta`}
+                      href={result.tokenAccountExplorerUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm transition-colors"
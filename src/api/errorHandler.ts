@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { ErrorResponse } from '../models/index';
+import { ApiError, TransactionError } from '../utils/errors';
 import logger from '../utils/logger';
 
 export function errorHandler(
@@ -12,9 +13,14 @@ export function errorHandler(
 
   const errorResponse: ErrorResponse = {
     error: err.message || 'Internal server error',
-    code: 'INTERNAL_ERROR',
+    code: err instanceof ApiError ? err.code : 'INTERNAL_ERROR',
     details: process.env.NODE_ENV === 'development' ? err.stack : undefined,
   };
 
-  res.status(500).json(errorResponse);
-} 
\ No newline at end of file
+  if (err instanceof TransactionError) {
+    errorResponse.signature = err.signature;
+    errorResponse.logs = err.logs;
+  }
+
+  res.status(err instanceof ApiError ? err.statusCode : 500).json(errorResponse);
+}
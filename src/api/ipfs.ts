@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { IpfsService } from '../services/IpfsService';
+import { getWebhookService } from '../services/WebhookService';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('IPFSApi');
@@ -44,13 +45,15 @@ ipfsRouter.post(
 
       logger.info(`✅ Image uploaded to IPFS: ${imageUrl}`);
 
-      res.json({
-        success: true,
+      const image = {
         imageUrl,
         fileName: req.file.originalname,
         fileSize: req.file.size,
         mimeType: req.file.mimetype
-      });
+      };
+      getWebhookService().emit('image.uploaded', image);
+
+      res.json({ success: true, ...image });
 
     } catch (error) {
       logger.error('Failed to upload image to IPFS:', error);
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { getRpcPool } from '../services/RpcPool';
+import { config } from '../config/index';
+import { RpcHealthResponse } from '../models/index';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('RpcAPI');
+
+export const rpcRouter = Router();
+
+// GET /api/rpc/health - Endpoint status per enabled cluster; 503 when the deployment's cluster has no healthy endpoint
+rpcRouter.get('/health', (_req, res, next) => {
+  try {
+    const clusters = [...new Set([config.cluster, ...config.allowedClusters])].map((cluster) =>
+      getRpcPool(cluster).getHealth()
+    );
+    const health: RpcHealthResponse = { healthy: clusters[0].healthy, clusters };
+    res.status(health.healthy ? 200 : 503).json(health);
+  } catch (error) {
+    logger.error('Failed to get RPC health:', error);
+    next(error);
+  }
+});
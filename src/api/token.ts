@@ -1,11 +1,22 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { body, param, validationResult } from 'express-validator';
-import { TokenService } from '../services/TokenService';
-import { validatePublicKey } from '../utils/validation';
+import { body, matchedData, param, query, validationResult } from 'express-validator';
+import { getTokenService } from '../services/TokenService';
+import { getVestingService } from '../services/VestingService';
+import { getAirdropService } from '../services/AirdropService';
+import { getVanityService } from '../services/VanityService';
+import { getLaunchQueue } from '../services/LaunchQueue';
+import { validatePublicKey, MAX_TOKEN_DECIMALS } from '../utils/validation';
+import { MAX_ALLOCATIONS } from '../utils/allocation';
+import { MAX_AIRDROP_RECIPIENTS } from '../utils/airdrop';
+import { SOLANA_CLUSTERS } from '../utils/cluster';
 import { createLogger } from '../utils/logger';
+import { WalletLaunchQuery } from '../models/index';
 import { config } from '../config/index';
 
 const logger = createLogger('TokenAPI');
+const vanityService = getVanityService();
+
+const SSE_HEARTBEAT_MS = 15000;
 
 export const tokenRouter = Router();
 
@@ -28,36 +39,94 @@ const timeoutMiddleware = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
-// POST /api/token/prepare - Prepare token transaction for user signature
+// Body of /prepare, also accepted by /estimate
+const prepareValidators = [
+  body('userWallet').notEmpty().custom((value) => {
+    const pubkey = validatePublicKey(value);
+    if (!pubkey) throw new Error('Invalid wallet address');
+    return true;
+  }),
+  body('name').notEmpty().isLength({ min: 1, max: 32 }),
+  body('symbol').notEmpty().isLength({ min: 1, max: 10 }),
+  body('description').optional().isLength({ min: 1, max: 200 }),
+  body('imageUrl').optional().custom((value) => {
+    if (!value) return true;
+    
+    if (value.startsWith('data:image/')) return true;
+    
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      throw new Error('Invalid image URL');
+    }
+  }),
+  body('imageUpload').optional(),
+  body('website').optional({ checkFalsy: true }).isURL(),
+  body('twitter').optional({ checkFalsy: true }).isURL(),
+  body('telegram').optional({ checkFalsy: true }).isURL(),
+  body('supply').optional({ checkFalsy: true }).customSanitizer((value) => String(value)).matches(/^\d+$/),
+  body('decimals').optional().isInt({ min: 0, max: MAX_TOKEN_DECIMALS }).toInt(),
+  body('tokenProgram').optional().isIn(['spl', 'token-2022']),
+  body('extensions').optional().isObject(),
+  body('extensions.transferFee.feeBasisPoints').optional().isInt({ min: 0, max: 10000 }).toInt(),
+  body('extensions.transferFee.maxFee').optional().customSanitizer((value) => String(value)).matches(/^\d+$/),
+  body('extensions.interestBearing.rateBps').optional().isInt({ min: -32768, max: 32767 }).toInt(),
+  body('extensions.nonTransferable').optional().isBoolean().toBoolean(),
+  body('extensions.permanentDelegate').optional().custom((value) => {
+    const pubkey = validatePublicKey(value);
+    if (!pubkey) throw new Error('Invalid permanent delegate address');
+    return true;
+  }),
+  body('extensions.defaultAccountState').optional().isIn(['initialized', 'frozen']),
+  body('mutableMetadata').optional().isBoolean().toBoolean(),
+  body('executionMode').optional().isIn(['staged', 'atomic']),
+  body('launchMode').optional().isIn(['simple', 'bonding-curve']),
+  body('transactionVersion')
+    .optional()
+    .isIn(['legacy', 0, '0'])
+    .customSanitizer((value) => (value === 'legacy' ? 'legacy' : 0)),
+  body('priorityLevel').optional().isIn(['low', 'medium', 'high', 'custom']),
+  body('priorityFeeMicroLamports')
+    .if(body('priorityLevel').equals('custom'))
+    .isInt({ min: 0 })
+    .withMessage('priorityFeeMicroLamports is required for the custom priority level')
+    .toInt(),
+  body('allocations').optional().isArray({ min: 1, max: MAX_ALLOCATIONS }),
+  body('allocations.*.wallet').custom((value) => {
+    const pubkey = validatePublicKey(value);
+    if (!pubkey) throw new Error('Invalid allocation wallet address');
+    return true;
+  }),
+  body('allocations.*.percentage').optional().isFloat({ gt: 0, max: 100 }).toFloat(),
+  body('allocations.*.amount').optional().customSanitizer((value) => String(value)).matches(/^\d+(\.\d+)?$/),
+  body('allocations.*.label').optional().isString().isLength({ max: 32 }),
+  body('allocations.*.vesting.cliffSeconds').optional().isInt({ min: 0 }).toInt(),
+  body('allocations.*.vesting.durationSeconds').optional().isInt({ min: 1 }).toInt(),
+  body('allocations.*.vesting.releaseIntervalSeconds').optional().isInt({ min: 1 }).toInt(),
+  body('allocations.*.vesting.startTime').optional().isInt({ min: 0 }).toInt(),
+  body('vanity').optional().isObject(),
+  body('vanity.prefix').optional().isString().matches(/^[1-9A-HJ-NP-Za-km-z]*$/),
+  body('vanity.suffix').optional().isString().matches(/^[1-9A-HJ-NP-Za-km-z]*$/),
+  body('liquidity').optional().isObject(),
+  body('liquidity.tokenAmount')
+    .if(body('liquidity').exists())
+    .customSanitizer((value) => String(value))
+    .matches(/^\d+(\.\d+)?$/),
+  body('liquidity.solAmount')
+    .if(body('liquidity').exists())
+    .customSanitizer((value) => String(value))
+    .matches(/^\d+(\.\d{1,9})?$/),
+  body('liquidity.lpLock').optional().isIn(['none', 'burn']),
+  body('dryRun').optional().isBoolean().toBoolean(),
+  body('cluster').optional().isIn(SOLANA_CLUSTERS),
+];
+
+// POST /api/token/prepare - Prepare token transaction for user signature (or simulate it with dryRun)
 tokenRouter.post(
   '/prepare',
   timeoutMiddleware,
-  [
-    body('userWallet').notEmpty().custom((value) => {
-      const pubkey = validatePublicKey(value);
-      if (!pubkey) throw new Error('Invalid wallet address');
-      return true;
-    }),
-    body('name').notEmpty().isLength({ min: 1, max: 32 }),
-    body('symbol').notEmpty().isLength({ min: 1, max: 10 }),
-    body('description').optional().isLength({ min: 1, max: 200 }),
-    body('imageUrl').optional().custom((value) => {
-      if (!value) return true;
-      
-      if (value.startsWith('data:image/')) return true;
-      
-      try {
-        new URL(value);
-        return true;
-      } catch {
-        throw new Error('Invalid image URL');
-      }
-    }),
-    body('imageUpload').optional(),
-    body('website').optional({ checkFalsy: true }).isURL(),
-    body('twitter').optional({ checkFalsy: true }).isURL(),
-    body('telegram').optional({ checkFalsy: true }).isURL(),
-  ],
+  prepareValidators,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const errors = validationResult(req);
@@ -75,13 +144,16 @@ tokenRouter.post(
         userWallet: prepareRequest.userWallet,
         name: prepareRequest.name,
         symbol: prepareRequest.symbol,
+        tokenProgram: prepareRequest.tokenProgram || 'spl',
         hasImage: !!prepareRequest.imageUpload,
         imageSize: prepareRequest.imageUpload ? prepareRequest.imageUpload.length : 0,
         requestBodySize: JSON.stringify(req.body).length
       });
       
-      const tokenService = new TokenService();
-      const result = await tokenService.prepareTokenTransaction(prepareRequest);
+      const clusterService = getTokenService(prepareRequest.cluster);
+      const result = prepareRequest.dryRun
+        ? await clusterService.dryRunLaunch(prepareRequest)
+        : await clusterService.prepareTokenTransaction(prepareRequest);
       
       res.json(result);
     } catch (error) {
@@ -97,10 +169,34 @@ tokenRouter.post(
   }
 );
 
-// POST /api/token/execute - Execute signed transaction
+// POST /api/token/estimate - Rent and fees per payer for a /prepare body
 tokenRouter.post(
-  '/execute',
+  '/estimate',
   timeoutMiddleware,
+  prepareValidators,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const estimate = await getTokenService(req.body.cluster).estimateLaunchCost(req.body);
+      res.json(estimate);
+    } catch (error) {
+      logger.error('Failed to estimate launch cost:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/execute - Queue a signed launch; 202 with the job (resubmitting a queued or running session returns its job)
+tokenRouter.post(
+  '/execute',
   [
     body('sessionId').notEmpty(),
     body('signedTransaction').notEmpty(),
@@ -123,10 +219,9 @@ tokenRouter.post(
         hasSignedTransaction: !!executeRequest.signedTransaction
       });
       
-      const tokenService = new TokenService();
-      const result = await tokenService.executeTokenTransaction(executeRequest);
+      const job = await getLaunchQueue().enqueueExecute(executeRequest);
       
-      res.json(result);
+      res.status(202).location(`/api/token/jobs/${job.id}`).json(job);
     } catch (error) {
       logger.error('Failed to execute token:', error);
       logger.error('Error details:', {
@@ -140,10 +235,176 @@ tokenRouter.post(
   }
 );
 
-// POST /api/token/launch - Simple token mint (LEGACY - backward compatibility)
+// GET /api/token/session/:id - Launch progress for a prepared session
+tokenRouter.get(
+  '/session/:id',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const status = await getTokenService().getSessionStatus(req.params.id);
+      if (!status) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found or expired',
+        });
+      }
+
+      res.json(status);
+    } catch (error) {
+      logger.error('Failed to get session status:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/token/session/:id/events - Launch progress as Server-Sent Events, closed once the launch completes or fails
+tokenRouter.get(
+  '/session/:id/events',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const stop = await getTokenService().watchSession(req.params.id, (event) => {
+        if (!res.headersSent) {
+          res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no', // keep proxies from holding events back
+          });
+        }
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        if (event.type === 'done') res.end();
+      });
+      if (!stop) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found or expired',
+        });
+      }
+      if (res.writableEnded) return;
+
+      // Comments keep idle connections open through proxies
+      const heartbeat = setInterval(() => res.write(': keepalive\n\n'), SSE_HEARTBEAT_MS);
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        stop();
+      });
+    } catch (error) {
+      logger.error('Failed to stream session events:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/token/jobs - Launch jobs, newest first
+tokenRouter.get(
+  '/jobs',
+  [
+    query('wallet').optional().custom((value) => {
+      const pubkey = validatePublicKey(value);
+      if (!pubkey) throw new Error('Invalid wallet address');
+      return true;
+    }),
+    query('status').optional().isIn(['queued', 'running', 'completed', 'failed']),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const jobs = await getLaunchQueue().listJobs(matchedData(req, { locations: ['query'] }));
+      res.json(jobs);
+    } catch (error) {
+      logger.error('Failed to list launch jobs:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/token/jobs/:id - Job status, attempts and the launch result once completed
+tokenRouter.get(
+  '/jobs/:id',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const job = await getLaunchQueue().getJob(req.params.id);
+      res.json(job);
+    } catch (error) {
+      logger.error('Failed to get launch job:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/session/:id/liquidity - Send the pool transaction signed by the creator
 tokenRouter.post(
-  '/launch',
+  '/session/:id/liquidity',
   timeoutMiddleware,
+  [
+    param('id').isUUID(),
+    body('signedTransaction').notEmpty(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const liquidity = await getTokenService().submitLiquidity(req.params.id, req.body.signedTransaction);
+      res.json(liquidity);
+    } catch (error) {
+      logger.error('Failed to submit liquidity:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/session/:id/liquidity/refresh - Rebuild a pool transaction that has not landed
+tokenRouter.post(
+  '/session/:id/liquidity/refresh',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const liquidity = await getTokenService().refreshLiquidity(req.params.id);
+      res.json(liquidity);
+    } catch (error) {
+      logger.error('Failed to refresh liquidity:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/launch - Queue a simple token mint (LEGACY - backward compatibility); 202 with the job
+tokenRouter.post(
+  '/launch',
   [
     body('userWallet').notEmpty().custom((value) => {
       const pubkey = validatePublicKey(value);
@@ -169,6 +430,9 @@ tokenRouter.post(
     body('website').optional({ checkFalsy: true }).isURL(),
     body('twitter').optional({ checkFalsy: true }).isURL(),
     body('telegram').optional({ checkFalsy: true }).isURL(),
+    body('supply').optional({ checkFalsy: true }).customSanitizer((value) => String(value)).matches(/^\d+$/),
+    body('decimals').optional().isInt({ min: 0, max: MAX_TOKEN_DECIMALS }).toInt(),
+    body('cluster').optional().isIn(SOLANA_CLUSTERS),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -193,10 +457,9 @@ tokenRouter.post(
         requestBodySize: JSON.stringify(req.body).length
       });
       
-      const tokenService = new TokenService();
-      const result = await tokenService.launchToken(launchRequest);
+      const job = await getLaunchQueue().enqueueLaunch(launchRequest);
       
-      res.json(result);
+      res.status(202).location(`/api/token/jobs/${job.id}`).json(job);
     } catch (error) {
       logger.error('Failed to launch token:', error);
       logger.error('Error details:', {
@@ -219,6 +482,7 @@ tokenRouter.get(
       if (!pubkey) throw new Error('Invalid mint address');
       return true;
     }),
+    query('cluster').optional().isIn(SOLANA_CLUSTERS),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -227,8 +491,8 @@ tokenRouter.get(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const tokenService = new TokenService();
-      const status = await tokenService.getTokenStatus(req.params.mint);
+      const cluster = req.query.cluster as string | undefined;
+      const status = await getTokenService(cluster).getTokenStatus(req.params.mint);
       res.json(status);
     } catch (error) {
       logger.error('Failed to get token status:', error);
@@ -237,11 +501,270 @@ tokenRouter.get(
   }
 );
 
+// GET /api/token/by-wallet/:wallet - Launches created by a wallet
+tokenRouter.get(
+  '/by-wallet/:wallet',
+  [
+    param('wallet').custom((value) => {
+      const pubkey = validatePublicKey(value);
+      if (!pubkey) throw new Error('Invalid wallet address');
+      return true;
+    }),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('sort').optional().isIn(['createdAt', 'updatedAt', 'name', 'symbol']),
+    query('order').optional().isIn(['asc', 'desc']),
+    query('status').optional().isIn(['prepared', 'completed', 'failed']),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const options = matchedData(req, { locations: ['query'] }) as WalletLaunchQuery;
+      const launches = await getTokenService().getLaunchesByWallet(req.params.wallet, options);
+      res.json(launches);
+    } catch (error) {
+      logger.error('Failed to get wallet launches:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/token/:mint/vesting - Vesting escrows created for a mint's allocations
+tokenRouter.get(
+  '/:mint/vesting',
+  [
+    param('mint').custom((value) => {
+      const pubkey = validatePublicKey(value);
+      if (!pubkey) throw new Error('Invalid mint address');
+      return true;
+    }),
+    query('cluster').optional().isIn(SOLANA_CLUSTERS),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const cluster = req.query.cluster as string | undefined;
+      const vesting = await getVestingService(cluster).getVesting(req.params.mint);
+      res.json(vesting);
+    } catch (error) {
+      logger.error('Failed to get vesting:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/:mint/vesting/claim - Unsigned claim transaction for a recipient
+tokenRouter.post(
+  '/:mint/vesting/claim',
+  [
+    param('mint').custom((value) => {
+      const pubkey = validatePublicKey(value);
+      if (!pubkey) throw new Error('Invalid mint address');
+      return true;
+    }),
+    body('wallet').notEmpty().custom((value) => {
+      const pubkey = validatePublicKey(value);
+      if (!pubkey) throw new Error('Invalid wallet address');
+      return true;
+    }),
+    body('transactionVersion')
+      .optional()
+      .isIn(['legacy', 0, '0'])
+      .customSanitizer((value) => (value === 'legacy' ? 'legacy' : 0)),
+    body('cluster').optional().isIn(SOLANA_CLUSTERS),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const claim = await getVestingService(req.body.cluster).buildClaimTransaction(
+        req.params.mint,
+        req.body.wallet,
+        req.body.transactionVersion
+      );
+      res.json(claim);
+    } catch (error) {
+      logger.error('Failed to build vesting claim:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/:mint/airdrop - Unsigned transfer batches for the creator's wallet
+tokenRouter.post(
+  '/:mint/airdrop',
+  timeoutMiddleware,
+  [
+    param('mint').custom((value) => {
+      const pubkey = validatePublicKey(value);
+      if (!pubkey) throw new Error('Invalid mint address');
+      return true;
+    }),
+    body('creatorWallet').notEmpty().custom((value) => {
+      const pubkey = validatePublicKey(value);
+      if (!pubkey) throw new Error('Invalid wallet address');
+      return true;
+    }),
+    body('recipients').optional().isArray({ min: 1, max: MAX_AIRDROP_RECIPIENTS }),
+    body('recipients.*.amount').customSanitizer((value) => String(value)),
+    body('csv')
+      .if(body('recipients').not().exists())
+      .isString()
+      .notEmpty()
+      .withMessage('Provide either recipients or csv'),
+    body('transactionVersion')
+      .optional()
+      .isIn(['legacy', 0, '0'])
+      .customSanitizer((value) => (value === 'legacy' ? 'legacy' : 0)),
+    body('priorityLevel').optional().isIn(['low', 'medium', 'high', 'custom']),
+    body('priorityFeeMicroLamports')
+      .if(body('priorityLevel').equals('custom'))
+      .isInt({ min: 0 })
+      .withMessage('priorityFeeMicroLamports is required for the custom priority level')
+      .toInt(),
+    body('cluster').optional().isIn(SOLANA_CLUSTERS),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      logger.info('Airdrop request received:', {
+        mint: req.params.mint,
+        creatorWallet: req.body.creatorWallet,
+        recipients: req.body.recipients ? req.body.recipients.length : 'csv',
+      });
+
+      const airdrop = await getAirdropService(req.body.cluster).prepareAirdrop(req.params.mint, req.body);
+      res.json(airdrop);
+    } catch (error) {
+      logger.error('Failed to prepare airdrop:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/token/airdrop/:id - Airdrop batches and their confirmation status
+tokenRouter.get(
+  '/airdrop/:id',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const airdrop = await getAirdropService().getAirdrop(req.params.id);
+      res.json(airdrop);
+    } catch (error) {
+      logger.error('Failed to get airdrop:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/airdrop/:id/batches/:index - Send one batch signed by the creator
+tokenRouter.post(
+  '/airdrop/:id/batches/:index',
+  timeoutMiddleware,
+  [
+    param('id').isUUID(),
+    param('index').isInt({ min: 0 }).toInt(),
+    body('signedTransaction').notEmpty(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const airdrop = await getAirdropService().submitBatch(
+        req.params.id,
+        Number(req.params.index),
+        req.body.signedTransaction
+      );
+      res.json(airdrop);
+    } catch (error) {
+      logger.error('Failed to submit airdrop batch:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/token/airdrop/:id/refresh - Rebuild unsent, failed and expired batches
+tokenRouter.post(
+  '/airdrop/:id/refresh',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const airdrop = await getAirdropService().refreshAirdrop(req.params.id);
+      res.json(airdrop);
+    } catch (error) {
+      logger.error('Failed to refresh airdrop:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/token/vanity/estimate - Expected grinding time for a mint address pattern
+tokenRouter.get(
+  '/vanity/estimate',
+  [
+    query('prefix').optional().isString(),
+    query('suffix').optional().isString(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { prefix, suffix } = matchedData(req, { locations: ['query'] });
+      res.json(vanityService.estimate({ prefix, suffix }));
+    } catch (error) {
+      logger.error('Failed to estimate vanity difficulty:', error);
+      next(error);
+    }
+  }
+);
+
 // GET /api/token/standards
 tokenRouter.get('/standards', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const tokenService = new TokenService();
-    const standards = tokenService.getTokenStandards();
+    const standards = getTokenService().getTokenStandards();
     res.json(standards);
   } catch (error) {
     logger.error('Failed to get token standards:', error);
@@ -252,8 +775,7 @@ tokenRouter.get('/standards', async (req: Request, res: Response, next: NextFunc
 // GET /api/token/stats
 tokenRouter.get('/stats', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const tokenService = new TokenService();
-    const stats = await tokenService.getLaunchStatistics();
+    const stats = await getTokenService().getLaunchStatistics();
     res.json(stats);
   } catch (error) {
     logger.error('Failed to get launch statistics:', error);
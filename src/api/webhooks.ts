@@ -0,0 +1,152 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, matchedData, param, query, validationResult } from 'express-validator';
+import { WEBHOOK_EVENTS, getWebhookService } from '../services/WebhookService';
+import { getApiKeyOwner, isWebhookApiKey, isWebhookOperatorKey } from '../utils/crypto';
+import { ApiError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('WebhooksAPI');
+
+export const webhooksRouter = Router();
+
+// Every route acts for the caller's X-API-Key, from WEBHOOK_API_KEYS or WEBHOOK_OPERATOR_KEYS
+const requireApiKey = (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = req.header('X-API-Key');
+  if (!apiKey || !isWebhookApiKey(apiKey)) {
+    return next(new ApiError('A valid X-API-Key header is required', 'UNAUTHORIZED', 401));
+  }
+  res.locals.owner = getApiKeyOwner(apiKey);
+  res.locals.isOperator = isWebhookOperatorKey(apiKey);
+  next();
+};
+
+webhooksRouter.use(requireApiKey);
+
+// POST /api/webhooks - Register a webhook; its signing secret is only returned here
+webhooksRouter.post(
+  '/',
+  [
+    body('url').isURL({ protocols: ['https'], require_protocol: true }),
+    body('events').optional().isArray({ min: 1 }),
+    body('events.*').isIn(WEBHOOK_EVENTS),
+    body('description').optional().isString().isLength({ max: 100 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const { url, events, description } = req.body;
+      const webhook = await getWebhookService().registerWebhook(res.locals.owner, { url, events, description });
+      res.status(201).json(webhook);
+    } catch (error) {
+      logger.error('Failed to register webhook:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/webhooks
+webhooksRouter.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhooks = await getWebhookService().listWebhooks(res.locals.owner);
+    res.json(webhooks);
+  } catch (error) {
+    logger.error('Failed to list webhooks:', error);
+    next(error);
+  }
+});
+
+// GET /api/webhooks/deliveries - Delivery log, newest first
+webhooksRouter.get(
+  '/deliveries',
+  [
+    query('webhookId').optional().isString(),
+    query('status').optional().isIn(['pending', 'delivered', 'failed']),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const deliveries = await getWebhookService().listDeliveries(
+        res.locals.owner,
+        matchedData(req, { locations: ['query'] }),
+        res.locals.isOperator
+      );
+      res.json(deliveries);
+    } catch (error) {
+      logger.error('Failed to list webhook deliveries:', error);
+      next(error);
+    }
+  }
+);
+
+// GET /api/webhooks/deliveries/:id - One delivery with its payload and attempts
+webhooksRouter.get(
+  '/deliveries/:id',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const delivery = await getWebhookService().getDelivery(res.locals.owner, req.params.id, res.locals.isOperator);
+      res.json(delivery);
+    } catch (error) {
+      logger.error('Failed to get webhook delivery:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/webhooks/deliveries/:id/replay - Send a delivery's event again
+webhooksRouter.post(
+  '/deliveries/:id/replay',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const delivery = await getWebhookService().replayDelivery(res.locals.owner, req.params.id, res.locals.isOperator);
+      res.status(202).json(delivery);
+    } catch (error) {
+      logger.error('Failed to replay webhook delivery:', error);
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/webhooks/:id
+webhooksRouter.delete(
+  '/:id',
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      await getWebhookService().deleteWebhook(res.locals.owner, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Failed to delete webhook:', error);
+      next(error);
+    }
+  }
+);
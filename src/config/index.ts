@@ -1,14 +1,58 @@
+import os from 'os';
 import { PublicKey } from '@solana/web3.js';
 import dotenv from 'dotenv';
+import { ExplorerName, SolanaCluster } from '../models/index';
 
 dotenv.config();
 
+const cluster = (process.env.SOLANA_CLUSTER || 'mainnet-beta') as SolanaCluster;
+
+// RPC endpoint per cluster, falling back to the public one; RPC_URL overrides the deployment's cluster
+const clusterRpcUrls: Record<SolanaCluster, string> = {
+  'mainnet-beta': process.env.RPC_URL_MAINNET || 'https://api.mainnet-beta.solana.com',
+  devnet: process.env.RPC_URL_DEVNET || 'https://api.devnet.solana.com',
+  testnet: process.env.RPC_URL_TESTNET || 'https://api.testnet.solana.com',
+  localnet: process.env.RPC_URL_LOCALNET || 'http://127.0.0.1:8899',
+  custom: process.env.RPC_URL_CUSTOM || '',
+};
+if (process.env.RPC_URL) {
+  clusterRpcUrls[cluster] = process.env.RPC_URL;
+}
+
+// "url|weight" entries separated by commas; the weight defaults to 1
+function parseRpcEndpoints(value: string | undefined): Array<{ url: string; weight: number }> {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [url, weight] = entry.split('|');
+      return { url: url.trim(), weight: weight ? parseFloat(weight) : 1 };
+    });
+}
+
 export const config = {
   // Server settings
   port: parseInt(process.env.PORT || '8080', 10),
 
-  // Solana RPC
-  rpcUrl: process.env.RPC_URL || 'https://api.mainnet-beta.solana.com',
+  // Solana cluster and RPC
+  cluster,
+  rpcUrl: clusterRpcUrls[cluster] ?? '',
+  clusterRpcUrls,
+  // Clusters requests may pick besides the deployment's own, e.g. "devnet,testnet"
+  allowedClusters: (process.env.SOLANA_CLUSTERS || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean) as SolanaCluster[],
+  explorer: (process.env.EXPLORER || 'solanafm') as ExplorerName,
+
+  // RPC pool for the deployment's cluster: RPC_URL plus these, and endpoints that only send transactions
+  rpcEndpoints: parseRpcEndpoints(process.env.RPC_ENDPOINTS),
+  rpcSendEndpoints: parseRpcEndpoints(process.env.RPC_SEND_ENDPOINTS),
+  rpcHealthCheckIntervalMs: parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL_MS || '30000', 10),
+  rpcRequestTimeoutMs: parseInt(process.env.RPC_REQUEST_TIMEOUT_MS || '15000', 10),
+  rpcMaxSlotLag: parseInt(process.env.RPC_MAX_SLOT_LAG || '50', 10), // slots behind the best endpoint
+  rpcMaxErrorRate: parseFloat(process.env.RPC_MAX_ERROR_RATE || '0.5'), // of recent requests
   commitment: process.env.COMMITMENT || 'confirmed',
 
   // Master wallet (holds mint authority)
@@ -21,7 +65,7 @@ export const config = {
 
   // Token settings
   defaultDecimals: 9,
-  defaultSupply: 1_000_000_000_000_000_000, // 1 billion with 9 decimals (as number)
+  defaultSupply: 1_000_000_000n, // 1 billion whole tokens, scaled by decimals at mint time
 
   // Launch fee (in lamports)
   launchFeeLamports: Math.floor(
@@ -31,17 +75,80 @@ export const config = {
   // SPL Token Program ID (Standard)
   tokenProgramId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
 
+  // Token-2022 Program ID (Token Extensions)
+  token2022ProgramId: new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'),
+
   // Metaplex Token Metadata Program ID
   metadataProgramId: new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s'),
 
+  // Token vesting program holding vested allocations (Bonfida token-vesting)
+  vestingProgramId: new PublicKey(
+    process.env.VESTING_PROGRAM_ID || 'CChTq6PthWU82YZkbveA3WDf7s97BWhBK4Vx9bmsT743'
+  ),
+
   // IPFS Configuration (Pinata)
   pinataApiKey: process.env.PINATA_API_KEY || '',
   pinataApiSecret: process.env.PINATA_API_SECRET || '',
   pinataJwt: process.env.PINATA_JWT || '',
 
-
-  // DBC Configuration
-  dbcConfigKey: process.env.DBC_CONFIG_KEY || '',
+  // Priority fees (compute unit price in micro-lamports)
+  priorityLevel: (process.env.PRIORITY_LEVEL || 'medium') as 'low' | 'medium' | 'high',
+  minPriorityFeeMicroLamports: parseInt(process.env.MIN_PRIORITY_FEE_MICROLAMPORTS || '1000', 10),
+  maxPriorityFeeMicroLamports: parseInt(process.env.MAX_PRIORITY_FEE_MICROLAMPORTS || '2000000', 10),
+  defaultComputeUnitLimit: parseInt(process.env.DEFAULT_COMPUTE_UNIT_LIMIT || '200000', 10),
+
+  // Launch sessions (prepare -> execute)
+  sessionStore: (process.env.SESSION_STORE || 'file') as 'memory' | 'file',
+  sessionTtlMs: parseInt(process.env.SESSION_TTL_MS || '3600000', 10),
+  sessionEncryptionKey: process.env.SESSION_ENCRYPTION_KEY || '',
+  dataDir: process.env.DATA_DIR || './data',
+
+  // Launch jobs: /execute and /launch run in the background, persisted under dataDir/jobs
+  launchConcurrency: parseInt(process.env.LAUNCH_CONCURRENCY || '1', 10), // launches the master wallet pays for at once
+  launchJobMaxAttempts: parseInt(process.env.LAUNCH_JOB_MAX_ATTEMPTS || '3', 10),
+  launchJobRetryBaseMs: parseInt(process.env.LAUNCH_JOB_RETRY_BASE_MS || '10000', 10), // doubled after each attempt
+  launchJobTtlMs: parseInt(process.env.LAUNCH_JOB_TTL_MS || String(24 * 60 * 60 * 1000), 10), // finished jobs
+
+  // Launch ledger (JSON lines under dataDir) behind /stats
+  ledgerFile: process.env.LEDGER_FILE || 'launches.jsonl',
+  statsDays: parseInt(process.env.STATS_DAYS || '30', 10),
+
+  // Vanity mint addresses, ground on worker threads
+  vanityWorkers: parseInt(process.env.VANITY_WORKERS || String(Math.max(os.cpus().length - 1, 1)), 10),
+  vanityTimeoutMs: parseInt(process.env.VANITY_TIMEOUT_MS || '30000', 10),
+  vanityMaxLength: parseInt(process.env.VANITY_MAX_LENGTH || '5', 10), // prefix + suffix characters
+  vanityDefaultSuffix: process.env.VANITY_DEFAULT_SUFFIX || '', // pre-ground in the background when set
+  vanityPoolSize: parseInt(process.env.VANITY_POOL_SIZE || '10', 10),
+
+  // DBC Configuration (Meteora Dynamic Bonding Curve, used by bonding-curve launches)
+  dbcConfigKey: process.env.DBC_CONFIG_KEY || '', // shared pool config, see `npm run dbc:create-config`
+  dbcInitialPrice: parseFloat(process.env.DBC_INITIAL_PRICE || '0.00001'), // SOL per token at launch
+  dbcTargetPrice: parseFloat(process.env.DBC_TARGET_PRICE || '0.001'), // SOL per token at migration
+  dbcMigrationThreshold: parseFloat(process.env.DBC_MIGRATION_THRESHOLD || '0.8'), // share of supply in the curve
+  dbcMaxSupplyInCurve: parseInt(process.env.DBC_MAX_SUPPLY_IN_CURVE || '800000000', 10), // whole tokens
+  platformFeeBps: parseInt(process.env.PLATFORM_FEE_BPS || '50', 10), // curve trading fee to the platform
+  creatorFeeBps: parseInt(process.env.CREATOR_FEE_BPS || '50', 10), // curve trading fee to the creator
+
+  // Raydium CPMM (constant-product pools seeded by launches with `liquidity`)
+  cpmmProgramId: new PublicKey(
+    process.env.CPMM_PROGRAM_ID || 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C'
+  ),
+  cpmmConfigIndex: parseInt(process.env.CPMM_CONFIG_INDEX || '0', 10), // fee tier, 0 = 0.25%
+  cpmmPoolFeeAccount: new PublicKey(
+    process.env.CPMM_POOL_FEE_ACCOUNT || 'DNXgeM9EiiaAbaWvwjHj9fQQLAX5ZsfHyvmYUNRAdNC8'
+  ),
+  platformLpShareBps: parseInt(process.env.PLATFORM_LP_SHARE_BPS || '50', 10), // LP tokens sent to the platform
+
+  // Webhooks: URLs that receive every event, their signing secret, and API keys that may register more
+  webhookUrls: (process.env.WEBHOOK_URLS || '').split(',').map((url) => url.trim()).filter(Boolean),
+  webhookSecret: process.env.WEBHOOK_SECRET || '',
+  webhookApiKeys: (process.env.WEBHOOK_API_KEYS || '').split(',').map((key) => key.trim()).filter(Boolean),
+  // Operator keys can also see and replay deliveries to webhookUrls
+  webhookOperatorKeys: (process.env.WEBHOOK_OPERATOR_KEYS || '').split(',').map((key) => key.trim()).filter(Boolean),
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+  webhookRetryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '5000', 10), // doubled after each attempt
+  webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  webhookLogTtlMs: parseInt(process.env.WEBHOOK_LOG_TTL_MS || String(7 * 24 * 60 * 60 * 1000), 10),
 
   // Timeout & Performance Settings
   apiTimeout: parseInt(process.env.API_TIMEOUT || '120000', 10),
@@ -76,7 +183,30 @@ export function validateConfig(): void {
     console.log('⚠️ PLATFORM_REWARD_ADDRESS not set, using default');
   }
 
+  for (const value of [config.cluster, ...config.allowedClusters]) {
+    if (!(value in config.clusterRpcUrls)) {
+      throw new Error(`Unknown cluster ${value}, expected one of ${Object.keys(config.clusterRpcUrls).join(', ')}`);
+    }
+  }
+  if (!['solscan', 'solana-explorer', 'solanafm'].includes(config.explorer)) {
+    throw new Error(`Unknown EXPLORER ${config.explorer}, expected solscan, solana-explorer or solanafm`);
+  }
+
+  if (!config.rpcUrl) {
+    throw new Error(`RPC_URL is required for the ${config.cluster} cluster`);
+  }
+  if (!(config.launchConcurrency >= 1) || !(config.launchJobMaxAttempts >= 1)) {
+    throw new Error('LAUNCH_CONCURRENCY and LAUNCH_JOB_MAX_ATTEMPTS must be at least 1');
+  }
+  if (config.webhookUrls.length > 0 && !config.webhookSecret) {
+    throw new Error('WEBHOOK_SECRET is required when WEBHOOK_URLS is set');
+  }
+  for (const endpoint of [...config.rpcEndpoints, ...config.rpcSendEndpoints]) {
+    if (!/^https?:\/\//.test(endpoint.url) || !(endpoint.weight > 0)) {
+      throw new Error(`Invalid RPC endpoint "${endpoint.url}|${endpoint.weight}", expected an http(s) URL and a positive weight`);
+    }
+  }
   if (!process.env.RPC_URL) {
-    console.log('⚠️ RPC_URL not set, using default mainnet');
+    console.log(`⚠️ RPC_URL not set, using ${config.rpcUrl}`);
   }
 } 
\ No newline at end of file
@@ -6,7 +6,11 @@ import logger from './utils/logger';
 import { walletRouter } from './api/wallet';
 import { tokenRouter } from './api/token';
 import { ipfsRouter } from './api/ipfs';
+import { rpcRouter } from './api/rpc';
+import { webhooksRouter } from './api/webhooks';
 import { errorHandler } from './api/errorHandler';
+import { getWebhookService } from './services/WebhookService';
+import { getLaunchQueue } from './services/LaunchQueue';
 
 // Validate configuration
 validateConfig();
@@ -31,7 +35,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
 }));
 app.use(express.json({ limit: '10mb' }));
 
@@ -47,7 +51,7 @@ app.use('/api/', limiter);
 app.options('*', (_req, res) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
   res.sendStatus(200);
 });
 
@@ -60,6 +64,8 @@ app.get('/health', (_req, res) => {
 app.use('/api/wallet', walletRouter);
 app.use('/api/token', tokenRouter);
 app.use('/api/ipfs', ipfsRouter);
+app.use('/api/rpc', rpcRouter);
+app.use('/api/webhooks', webhooksRouter);
 
 // Error handling
 app.use(errorHandler);
@@ -67,6 +73,13 @@ app.use(errorHandler);
 // Start server
 app.listen(config.port, () => {
   logger.info(`Launchium server running on port ${config.port}`);
-  logger.info(`RPC URL: ${config.rpcUrl}`);
+  logger.info(`Cluster: ${config.cluster}, RPC URL: ${config.rpcUrl}`);
   logger.info(`Platform reward address: ${config.platformRewardAddress.toBase58()}`);
+
+  getLaunchQueue()
+    .start()
+    .catch((error) => logger.error('Failed to start the launch queue:', error));
+  getWebhookService()
+    .resumePendingDeliveries()
+    .catch((error) => logger.error('Failed to resume webhook deliveries:', error));
 }); 
\ No newline at end of file
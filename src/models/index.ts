@@ -4,6 +4,12 @@ export interface CreateWalletResponse {
   message: string;
 }
 
+// Solana cluster a request runs on; 'custom' is any other RPC endpoint
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet' | 'custom';
+
+// Block explorer used for the links in responses
+export type ExplorerName = 'solscan' | 'solana-explorer' | 'solanafm';
+
 export interface LaunchTokenRequest {
   userWallet: string;
   name: string;
@@ -14,6 +20,222 @@ export interface LaunchTokenRequest {
   website?: string;
   twitter?: string;
   telegram?: string;
+  supply?: string; // whole tokens, defaults to config.defaultSupply
+  decimals?: number; // 0-9, defaults to config.defaultDecimals
+  cluster?: SolanaCluster; // defaults to config.cluster
+}
+
+export type TokenProgramType = 'spl' | 'token-2022';
+
+// staged: master wallet pays and runs each step after the user signs
+// atomic: one user-paid transaction performs the entire launch
+export type ExecutionMode = 'staged' | 'atomic';
+
+// simple: plain mint with the full supply sent to the allocations
+// bonding-curve: the mint is created inside a Meteora DBC pool that holds the supply
+export type LaunchMode = 'simple' | 'bonding-curve';
+
+// Mint extensions available when tokenProgram is 'token-2022'
+export interface Token2022Extensions {
+  transferFee?: {
+    feeBasisPoints: number; // 0-10000
+    maxFee: string; // base units
+  };
+  interestBearing?: {
+    rateBps: number; // annual rate in basis points, may be negative
+  };
+  nonTransferable?: boolean;
+  permanentDelegate?: string; // wallet address
+  defaultAccountState?: 'initialized' | 'frozen';
+}
+
+// Linear unlock of an allocation, released in steps of releaseIntervalSeconds
+export interface VestingConfig {
+  cliffSeconds: number; // nothing unlocks before start + cliff
+  durationSeconds: number; // fully unlocked at start + duration
+  releaseIntervalSeconds: number;
+  startTime?: number; // unix seconds, defaults to prepare time
+}
+
+// Share of the initial supply minted to one wallet; give either percentage or amount
+export interface TokenAllocation {
+  wallet: string;
+  percentage?: number; // of the total supply, up to 4 decimal places
+  amount?: string; // tokens, may include a fraction up to the mint's decimals
+  label?: string; // e.g. 'team', 'treasury'
+  vesting?: VestingConfig; // held in a vesting escrow instead of the wallet's ATA
+}
+
+export interface VestingRelease {
+  releaseTime: number; // unix seconds
+  amount: string; // base units, 0 once claimed
+}
+
+export interface AllocationInfo {
+  wallet: string;
+  label?: string;
+  amount: string; // base units
+  percentage: number;
+  tokenAccount: string;
+  vestingAccount?: string;
+  schedule?: VestingRelease[];
+}
+
+export interface VestingContractInfo {
+  vestingAccount: string;
+  vestingTokenAccount: string;
+  destinationTokenAccount: string;
+  recipient: string | null; // owner of the destination token account, if it exists
+  explorerUrl: string; // vesting account page
+  lockedAmount: string; // base units
+  claimableAmount: string;
+  nextReleaseTime: number | null;
+  schedule: VestingRelease[];
+}
+
+export interface TokenVestingResponse {
+  mintAddress: string;
+  cluster: SolanaCluster;
+  programId: string;
+  contracts: VestingContractInfo[];
+}
+
+export interface VestingClaimResponse {
+  mintAddress: string;
+  vestingAccount: string;
+  claimableAmount: string;
+  transactionVersion: TransactionVersionOption;
+  transaction: string; // base64, fee payer is the recipient
+}
+
+export interface AirdropRecipientInput {
+  wallet: string;
+  amount: string; // tokens, may include a fraction up to the mint's decimals
+}
+
+// Send a list to `recipients`, or paste `wallet,amount` lines as `csv`
+export interface AirdropRequest {
+  creatorWallet: string; // holds the tokens and pays for every batch
+  recipients?: AirdropRecipientInput[];
+  csv?: string;
+  transactionVersion?: TransactionVersionOption; // defaults to 'legacy'
+  priorityLevel?: PriorityLevel;
+  priorityFeeMicroLamports?: number;
+  cluster?: SolanaCluster; // defaults to config.cluster
+}
+
+export type AirdropBatchStatus = 'pending' | 'sent' | 'confirmed' | 'failed' | 'expired';
+
+export interface AirdropRecipient {
+  wallet: string;
+  amount: string; // base units
+}
+
+export interface AirdropBatch {
+  index: number;
+  recipients: AirdropRecipient[];
+  amount: string; // base units
+  transaction: string; // base64 unsigned transaction for the creator
+  computeUnitLimit: number;
+  lastValidBlockHeight: number;
+  status: AirdropBatchStatus;
+  signature?: string;
+  explorerUrl?: string; // transaction page, once sent
+  error?: string;
+  updatedAt: number;
+}
+
+export interface AirdropSkippedEntry {
+  wallet: string;
+  amount: string;
+  reason: 'duplicate';
+}
+
+export interface Airdrop {
+  id: string;
+  mintAddress: string;
+  creatorWallet: string;
+  cluster?: SolanaCluster; // absent on airdrops prepared before clusters were selectable
+  programId: string;
+  decimals: number;
+  transactionVersion: TransactionVersionOption;
+  priorityFee: PriorityFeeInfo; // compute unit limit and fee summed over every batch
+  totalAmount: string; // base units
+  batches: AirdropBatch[];
+  skipped: AirdropSkippedEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AirdropResponse extends Airdrop {
+  totalRecipients: number;
+  progress: Record<AirdropBatchStatus, number>; // batch count per status
+}
+
+// Mint address pattern; base58 characters only, matched case-sensitively
+export interface VanityOptions {
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface VanityEstimate {
+  prefix: string;
+  suffix: string;
+  expectedAttempts: number;
+  keysPerSecond: number; // measured across all workers once grinding has run
+  estimatedSeconds: number;
+  timeoutMs: number;
+  probabilityWithinTimeout: number; // 0-1
+  pooled: number; // pre-ground keypairs that already match
+}
+
+export interface VanityResult {
+  prefix: string;
+  suffix: string;
+  attempts: number; // 0 when taken from the pre-ground pool
+  durationMs: number;
+  pooled: boolean;
+}
+
+// none: the creator keeps the LP tokens; burn: they are burned when the pool is created
+export type LpLockOption = 'none' | 'burn';
+
+// Raydium constant-product pool seeded from the creator's tokens once the launch completes
+export interface LiquidityRequest {
+  tokenAmount: string; // tokens, may include a fraction up to the mint's decimals
+  solAmount: string; // SOL paired with them, sets the opening price
+  lpLock?: LpLockOption; // defaults to 'none'
+}
+
+export type LiquidityStatus = 'pending' | 'sent' | 'confirmed' | 'failed' | 'expired';
+
+export interface LiquidityInfo {
+  poolAddress: string;
+  explorerUrl: string; // pool account page
+  lpMint: string;
+  tokenAmount: string; // base units
+  solAmount: string; // lamports
+  lpAmount: string; // LP tokens minted to the creator, base units
+  platformLpAmount: string; // part of lpAmount sent to config.platformRewardAddress
+  lpLock: LpLockOption;
+  transaction: string; // base64 unsigned transaction for the creator
+  lastValidBlockHeight: number;
+  status: LiquidityStatus;
+  signature?: string;
+  transactionExplorerUrl?: string; // once sent
+  error?: string;
+  updatedAt: number;
+}
+
+export type PriorityLevel = 'low' | 'medium' | 'high' | 'custom';
+
+export type TransactionVersionOption = 'legacy' | 0;
+
+export interface PriorityFeeInfo {
+  level: PriorityLevel;
+  microLamports: number; // compute unit price
+  computeUnitLimit: number;
+  estimatedFeeLamports: number; // priority fee at the full compute unit limit
 }
 
 export interface PrepareTokenRequest {
@@ -26,41 +248,338 @@ export interface PrepareTokenRequest {
   website?: string;
   twitter?: string;
   telegram?: string;
+  supply?: string; // whole tokens, defaults to config.defaultSupply
+  decimals?: number; // 0-9, defaults to config.defaultDecimals
+  tokenProgram?: TokenProgramType; // defaults to 'spl'
+  extensions?: Token2022Extensions;
+  mutableMetadata?: boolean; // creator keeps update authority, defaults to false
+  executionMode?: ExecutionMode; // defaults to 'staged'
+  transactionVersion?: TransactionVersionOption; // defaults to 'legacy'
+  priorityLevel?: PriorityLevel; // defaults to config.priorityLevel
+  priorityFeeMicroLamports?: number; // required when priorityLevel is 'custom'
+  allocations?: TokenAllocation[]; // must sum to the supply, defaults to all to userWallet
+  vanity?: VanityOptions; // mint address pattern, ground before the transaction is built
+  launchMode?: LaunchMode; // defaults to 'simple'
+  liquidity?: LiquidityRequest; // pool transaction returned by execute for the creator to sign
+  dryRun?: boolean; // simulate every launch transaction instead of preparing a session
+  cluster?: SolanaCluster; // defaults to config.cluster, sessions keep the cluster they were prepared on
 }
 
 export interface PrepareTokenResponse {
   success: boolean;
   sessionId: string;
   mintAddress: string;
+  cluster: SolanaCluster;
+  explorerUrl: string; // token page, live once the launch lands
+  executionMode: ExecutionMode;
+  transactionVersion: TransactionVersionOption;
+  priorityFee: PriorityFeeInfo;
+  vanity?: VanityResult;
+  launchMode: LaunchMode;
+  poolAddress?: string; // DBC pool, bonding-curve launches only
   transaction: string; // base64 encoded transaction
   message: string;
 }
 
+// Who pays for a launch transaction: the creator's wallet or the platform's master wallet
+export type LaunchPayer = 'user' | 'master';
+
+export type RentAccountType = 'mint' | 'token_account' | 'metadata' | 'vesting' | 'pool';
+
+export interface RentEstimate {
+  account: RentAccountType;
+  payer: LaunchPayer;
+  count: number;
+  lamports: number; // for all `count` accounts
+}
+
+export interface PayerCostEstimate {
+  transactions: number;
+  rentLamports: number;
+  networkFeeLamports: number; // base fee per signature
+  priorityFeeLamports: number; // at each transaction's compute unit limit
+  platformFeeLamports: number;
+  totalLamports: number;
+}
+
+// Cost of a launch before it is prepared; excludes the optional liquidity transaction
+export interface LaunchEstimateResponse {
+  executionMode: ExecutionMode;
+  launchMode: LaunchMode;
+  priorityFee: PriorityFeeInfo; // of the user's transaction; master transactions use the same price
+  rent: RentEstimate[];
+  costs: Record<LaunchPayer, PayerCostEstimate>;
+  totalLamports: number;
+}
+
+export interface TransactionSimulation {
+  step: LaunchStep;
+  payer: LaunchPayer;
+  success: boolean;
+  requiresEarlierSteps: boolean; // simulated before the accounts earlier steps create exist
+  unitsConsumed?: number;
+  error?: string;
+  logs: string[];
+}
+
+export interface LaunchDryRunResponse {
+  success: boolean; // every transaction that does not depend on an earlier one simulated cleanly
+  dryRun: true;
+  estimate: LaunchEstimateResponse;
+  simulations: TransactionSimulation[];
+}
+
 export interface ExecuteTokenRequest {
   sessionId: string;
   signedTransaction: string; // base64 encoded signed transaction
 }
 
+export type SessionStatus = 'prepared' | 'submitted' | 'executing' | 'completed' | 'failed';
+
+// On-chain steps of a staged launch, in execution order
+export type LaunchStep =
+  | 'create_mint'
+  | 'user_transaction'
+  | 'thaw_account'
+  | 'mint_to'
+  | 'create_vesting'
+  | 'create_metadata'
+  | 'revoke_mint_authority'
+  | 'revoke_freeze_authority';
+
+export interface LaunchStepRecord {
+  step: LaunchStep;
+  signature?: string; // absent when the step was already satisfied on-chain
+  signatures?: string[]; // every transaction, for steps sent in several batches
+  completedAt: number;
+}
+
+export interface LaunchSession {
+  id: string;
+  status: SessionStatus;
+  request: PrepareTokenRequest;
+  mintAddress: string;
+  encryptedMintSecret: string; // see utils/crypto
+  metadataUri: string;
+  preparedMessage: string; // base64 message bytes the user must sign unchanged
+  priorityFee: PriorityFeeInfo; // also applied to master wallet transactions
+  lastValidBlockHeight: number; // of the prepared transaction's blockhash
+  poolAddress?: string; // DBC pool, bonding-curve launches only
+  liquidity?: LiquidityInfo; // built once the launch completes
+  steps: LaunchStepRecord[];
+  currentStep?: LaunchStep;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+  result?: LaunchTokenResponse;
+  error?: string;
+}
+
+export interface LaunchStepStatus {
+  step: LaunchStep;
+  status: 'pending' | 'completed' | SessionStatus;
+  signature?: string;
+  signatures?: string[];
+  explorerUrls?: string[]; // transaction pages, one per signature
+  completedAt?: number;
+}
+
+export interface LaunchSessionStatusResponse {
+  sessionId: string;
+  status: SessionStatus;
+  mintAddress: string;
+  cluster: SolanaCluster;
+  currentStep?: LaunchStep;
+  steps: LaunchStepStatus[];
+  error?: string;
+  result?: LaunchTokenResponse;
+  liquidity?: LiquidityInfo;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Server-Sent Events of /session/:id/events: `status` on connect and when the
+ * session or its current step changes, `step` as each step completes, and
+ * `done` once the launch completes or fails, after which the stream closes.
+ */
+export type LaunchProgressEvent =
+  | { type: 'status'; data: LaunchSessionStatusResponse }
+  | { type: 'step'; data: LaunchStepStatus }
+  | { type: 'done'; data: LaunchSessionStatusResponse };
+
 export interface LaunchTokenResponse {
   success: boolean;
   mintAddress: string;
   metadataAddress: string;
   userTokenAccount: string;
-  totalSupply: string;
-  userBalance: string;
+  decimals: number;
+  totalSupply: string; // base units
+  userBalance: string; // base units
   transactionSignature: string;
-  explorerUrl: string;
+  cluster: SolanaCluster;
+  explorerUrl: string; // launch transaction page
+  tokenExplorerUrl: string;
+  tokenAccountExplorerUrl: string; // userTokenAccount page
   fee: string;
+  priorityFee?: PriorityFeeInfo;
+  allocations?: AllocationInfo[];
+  poolAddress?: string; // DBC pool, bonding-curve launches only
+  liquidity?: LiquidityInfo; // requested pool, still to be signed by the creator
+}
+
+export type LaunchJobType = 'execute' | 'launch';
+
+// Queued jobs that failed with a retryable error go back to queued until nextAttemptAt
+export type LaunchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Background /execute or /launch, see services/LaunchQueue
+export interface LaunchJob {
+  id: string;
+  type: LaunchJobType;
+  status: LaunchJobStatus;
+  wallet: string; // the launch's user wallet, jobs of one wallet run one at a time
+  cluster: SolanaCluster;
+  request: ExecuteTokenRequest | LaunchTokenRequest;
+  sessionId?: string; // execute jobs
+  mintAddress?: string;
+  encryptedMintSecret?: string; // launch jobs keep one mint across attempts, see utils/crypto
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: number;
+  result?: LaunchTokenResponse;
+  error?: string; // of the latest attempt
+  errorCode?: string;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+export type LaunchJobResponse = Omit<LaunchJob, 'request' | 'encryptedMintSecret'>;
+
+export type LaunchOperation = 'prepare' | 'execute' | 'launch';
+
+// One line of the launch ledger, written when a prepare/execute/launch call ends
+export interface LaunchRecord {
+  id: string;
+  operation: LaunchOperation;
+  sessionId?: string;
+  wallet: string;
+  mintAddress?: string;
+  name: string;
+  symbol: string;
+  image?: string;
+  metadataUri?: string;
+  executionMode?: ExecutionMode;
+  cluster?: SolanaCluster; // absent on records written before clusters were selectable
+  attempt?: number; // of the launch job, for queued launches
+  startedAt: number;
+  completedAt: number;
+  durationMs: number;
+  signatures: string[];
+  feeLamports: number; // launch fee charged, 0 unless successful
+  outcome: 'success' | 'failure';
+  error?: string;
+  errorCode?: string;
+}
+
+export interface DailyLaunchVolume {
+  date: string; // UTC, YYYY-MM-DD
+  launches: number;
+  failures: number;
+  feesLamports: number;
+}
+
+export interface LaunchStatisticsResponse {
+  totalTokensLaunched: number;
+  totalPrepared: number;
+  totalAttempts: number; // execute and launch calls
+  failedAttempts: number;
+  successRate: string | null; // null until something was attempted
+  medianLaunchTimeMs: number | null;
+  medianLaunchTime: string | null;
+  totalFeesLamports: number;
+  dailyVolume: DailyLaunchVolume[];
+}
+
+export type WalletLaunchStatus = 'prepared' | 'completed' | 'failed';
+
+export type WalletLaunchSortField = 'createdAt' | 'updatedAt' | 'name' | 'symbol';
+
+// A launch as seen from the creator's wallet, merged from its ledger records
+export interface WalletLaunch {
+  mintAddress: string;
+  sessionId?: string;
+  name: string;
+  symbol: string;
+  image?: string;
+  metadataUri?: string;
+  executionMode?: ExecutionMode;
+  cluster: SolanaCluster;
+  status: WalletLaunchStatus;
+  signatures: string[];
+  explorerUrls: {
+    token: string;
+    transactions: string[];
+  };
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Paging and filters for a wallet's launch history
+export interface WalletLaunchQuery {
+  page?: number;
+  limit?: number;
+  sort?: WalletLaunchSortField;
+  order?: 'asc' | 'desc';
+  status?: WalletLaunchStatus;
+}
+
+export interface WalletLaunchesResponse {
+  wallet: string;
+  launches: WalletLaunch[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
 }
 
 export interface TokenStatusResponse {
   mintAddress: string;
+  cluster: SolanaCluster;
+  explorerUrl: string; // token page
   name: string;
   symbol: string;
   decimals: number;
   totalSupply: string;
+  tokenProgram: TokenProgramType;
+  programId: string; // owner of the mint account
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  metadataAddress: string;
+  updateAuthority: string | null; // null when the mint has no Metaplex metadata
+  isMutable: boolean;
   metadata: TokenMetadata;
-  launchTimestamp: number;
+  launchTimestamp: number | null; // block time of the mint's first transaction, if found
+  bondingCurve: BondingCurveState | null; // set when the mint trades on a DBC pool from DBC_CONFIG_KEY
+}
+
+// Live state of a Meteora DBC pool; amounts are base units
+export interface BondingCurveState {
+  poolAddress: string;
+  configAddress: string;
+  quoteMint: string;
+  baseReserve: string; // tokens still in the curve
+  quoteReserve: string; // raised so far
+  migrationQuoteThreshold: string; // quote reserve at which the pool migrates
+  progress: number; // 0-1, quoteReserve / migrationQuoteThreshold
+  price: string; // quote tokens per whole token
+  isMigrated: boolean;
 }
 
 export interface TokenMetadata {
@@ -78,10 +597,100 @@ export interface MetadataAttribute {
   value: string;
 }
 
+// One RPC endpoint of a cluster's pool; the URL is reduced to its host so API keys stay private
+export interface RpcEndpointHealth {
+  host: string;
+  weight: number;
+  sendOnly: boolean; // only receives sendTransaction, never probed
+  healthy: boolean;
+  slot: number | null; // at the last health check
+  slotLag: number | null; // behind the pool's most advanced endpoint
+  latencyMs: number | null; // moving average of requests and checks
+  errorRate: number; // 0-1, over recent requests
+  requests: number;
+  errors: number;
+  lastError?: string;
+  lastCheckedAt: number | null;
+}
+
+export interface RpcClusterHealth {
+  cluster: SolanaCluster;
+  healthy: boolean; // at least one endpoint that is not send-only is healthy
+  endpoints: RpcEndpointHealth[];
+}
+
+export interface RpcHealthResponse {
+  healthy: boolean; // the deployment's cluster is healthy
+  clusters: RpcClusterHealth[];
+}
+
+export type WebhookEvent = 'launch.prepared' | 'launch.completed' | 'launch.failed' | 'image.uploaded';
+
+export interface WebhookRequest {
+  url: string;
+  events?: WebhookEvent[]; // defaults to every event
+  description?: string;
+}
+
+// A webhook registered with an API key; config.webhookUrls are not stored
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  owner: string; // hash of the API key that registered it
+  secret: string; // HMAC-SHA256 key for the signature header
+  createdAt: number;
+}
+
+// The secret is only returned when the webhook is created
+export type WebhookResponse = Omit<Webhook, 'owner' | 'secret'> & { secret?: string };
+
+export interface ImageUploadedData {
+  imageUrl: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+// Body of every delivery; launch events carry the launch ledger record
+export interface WebhookPayload {
+  id: string; // event ID, kept by replays
+  event: WebhookEvent;
+  createdAt: number;
+  data: LaunchRecord | ImageUploadedData;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: number;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string; // 'config' for config.webhookUrls
+  owner?: string; // of the webhook; absent for config.webhookUrls
+  url: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: number;
+  replayOf?: string; // delivery this one replays
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface ErrorResponse {
   error: string;
   code: string;
   details?: string;
+  signature?: string;
+  logs?: string[];
 }
 
 export interface TokenLaunchData {
@@ -0,0 +1,29 @@
+import { Connection } from '@solana/web3.js';
+import { config, validateConfig } from '../config/index';
+import { BondingCurveService } from '../services/BondingCurveService';
+import { WalletService } from '../services/WalletService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('CreateDbcConfig');
+
+// One-off setup for bonding-curve launches: creates the DBC pool config, paid by the master wallet
+async function main(): Promise<void> {
+  validateConfig();
+  if (config.dbcConfigKey) {
+    logger.warn(`⚠️ DBC_CONFIG_KEY is already set to ${config.dbcConfigKey}, creating a new config anyway`);
+  }
+
+  const connection = new Connection(config.rpcUrl, 'confirmed');
+  const bondingCurveService = new BondingCurveService(connection);
+  const { configKey, signature } = await bondingCurveService.createConfig(
+    new WalletService().getMasterKeypair()
+  );
+
+  logger.info(`✅ DBC config created (${signature})`);
+  logger.info(`Add it to your environment:\n\nDBC_CONFIG_KEY=${configKey.toBase58()}\n`);
+}
+
+main().catch((error) => {
+  logger.error('❌ Failed to create DBC config:', error);
+  process.exit(1);
+});
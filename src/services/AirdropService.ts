@@ -0,0 +1,537 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount,
+  unpackMint
+} from '@solana/spl-token';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/index';
+import {
+  Airdrop,
+  AirdropBatch,
+  AirdropBatchStatus,
+  AirdropRecipient,
+  AirdropRecipientInput,
+  AirdropRequest,
+  AirdropResponse,
+  SolanaCluster
+} from '../models/index';
+import { AirdropStore, getAirdropStore } from './AirdropStore';
+import { PriorityFeeService } from './PriorityFeeService';
+import { getRpcPool } from './RpcPool';
+import { TransactionSender } from './TransactionSender';
+import { getClusterInstance } from '../utils/cluster';
+import { ApiError, TransactionError } from '../utils/errors';
+import { getExplorerUrl } from '../utils/explorer';
+import { createLogger } from '../utils/logger';
+import { parseAirdropCsv, resolveAirdropRecipients } from '../utils/airdrop';
+import {
+  buildTransaction,
+  deserializeTransaction,
+  fitsInTransaction,
+  getTransactionSignature,
+  serializeUnsignedTransaction,
+  verifySignedTransaction
+} from '../utils/transaction';
+import { formatTokenAmount } from '../utils/validation';
+
+const logger = createLogger('AirdropService');
+
+// Same encoded size as the real compute budget instructions, used while packing batches
+const PACKING_COMPUTE_BUDGET = [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: 0 }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 })
+];
+
+// Batches that can no longer land (never sent, failed on-chain or expired); refresh gives them a fresh blockhash
+const REBUILDABLE_STATUSES: AirdropBatchStatus[] = ['pending', 'failed', 'expired'];
+
+interface TransferContext {
+  creator: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  decimals: number;
+  sourceTokenAccount: PublicKey;
+}
+
+/**
+ * Prepares token airdrops as unsigned batches for the creator's wallet and
+ * tracks each batch until it is confirmed on-chain.
+ */
+export class AirdropService {
+  private cluster: SolanaCluster;
+  private connection: Connection;
+  private priorityFeeService: PriorityFeeService;
+  private transactionSender: TransactionSender;
+  private store: AirdropStore;
+  private locks: Map<string, Promise<void>> = new Map();
+
+  constructor(cluster: SolanaCluster = config.cluster, store: AirdropStore = getAirdropStore()) {
+    this.cluster = cluster;
+    this.connection = getRpcPool(cluster).connection;
+    this.priorityFeeService = new PriorityFeeService(this.connection);
+    this.transactionSender = new TransactionSender(this.connection);
+    this.store = store;
+  }
+
+  /**
+   * Validates and de-duplicates the recipient list, then packs transfers
+   * (each creating the recipient's token account if needed) into as few
+   * transactions as fit.
+   */
+  async prepareAirdrop(mintAddress: string, request: AirdropRequest): Promise<AirdropResponse> {
+    const mint = new PublicKey(mintAddress);
+    const creator = new PublicKey(request.creatorWallet);
+    const transactionVersion = request.transactionVersion ?? 'legacy';
+
+    const mintInfo = await this.connection.getAccountInfo(mint, 'confirmed');
+    if (
+      !mintInfo ||
+      (!mintInfo.owner.equals(config.tokenProgramId) && !mintInfo.owner.equals(config.token2022ProgramId))
+    ) {
+      throw new ApiError(`${mintAddress} is not a token mint`, 'MINT_NOT_FOUND', 404);
+    }
+    const { decimals } = unpackMint(mint, mintInfo, mintInfo.owner);
+
+    let resolved: ReturnType<typeof resolveAirdropRecipients>;
+    try {
+      const inputs: AirdropRecipientInput[] = request.recipients ?? parseAirdropCsv(request.csv ?? '');
+      resolved = resolveAirdropRecipients(inputs, decimals);
+    } catch (error) {
+      throw new ApiError((error as Error).message, 'INVALID_AIRDROP_RECIPIENTS');
+    }
+    const { recipients, skipped } = resolved;
+
+    const context: TransferContext = {
+      creator,
+      mint,
+      programId: mintInfo.owner,
+      decimals,
+      sourceTokenAccount: getAssociatedTokenAddressSync(mint, creator, true, mintInfo.owner)
+    };
+
+    const totalAmount = recipients.reduce((total, recipient) => total + recipient.amount, 0n);
+    const sourceInfo = await this.connection.getAccountInfo(context.sourceTokenAccount, 'confirmed');
+    const balance = sourceInfo
+      ? unpackAccount(context.sourceTokenAccount, sourceInfo, context.programId).amount
+      : 0n;
+    if (balance < totalAmount) {
+      throw new ApiError(
+        `Airdrop needs ${formatTokenAmount(totalAmount, decimals)} tokens but ${request.creatorWallet} holds ${formatTokenAmount(balance, decimals)}`,
+        'INSUFFICIENT_TOKEN_BALANCE'
+      );
+    }
+
+    logger.info(`🪂 Preparing airdrop of ${mintAddress} to ${recipients.length} wallet(s)`);
+
+    const batchRecipients = this.packBatches(
+      recipients.map((recipient) => ({
+        wallet: recipient.wallet.toBase58(),
+        amount: recipient.amount.toString()
+      })),
+      context,
+      transactionVersion
+    );
+
+    const microLamports = await this.priorityFeeService.getComputeUnitPrice(
+      request.priorityLevel ?? config.priorityLevel,
+      request.priorityFeeMicroLamports,
+      [context.sourceTokenAccount]
+    );
+    const computeUnitLimits: number[] = [];
+    for (const batch of batchRecipients) {
+      computeUnitLimits.push(
+        await this.priorityFeeService.estimateComputeUnits(
+          this.createBatchInstructions(batch, context),
+          creator
+        )
+      );
+    }
+
+    const now = Date.now();
+    const totalComputeUnits = computeUnitLimits.reduce((total, units) => total + units, 0);
+    const airdrop: Airdrop = {
+      id: uuidv4(),
+      mintAddress,
+      creatorWallet: request.creatorWallet,
+      cluster: this.cluster,
+      programId: context.programId.toBase58(),
+      decimals,
+      transactionVersion,
+      priorityFee: {
+        level: request.priorityLevel ?? config.priorityLevel,
+        microLamports,
+        computeUnitLimit: totalComputeUnits,
+        estimatedFeeLamports: Math.ceil((microLamports * totalComputeUnits) / 1_000_000)
+      },
+      totalAmount: totalAmount.toString(),
+      batches: batchRecipients.map((batch, index) => ({
+        index,
+        recipients: batch,
+        amount: batch.reduce((total, recipient) => total + BigInt(recipient.amount), 0n).toString(),
+        transaction: '',
+        computeUnitLimit: computeUnitLimits[index],
+        lastValidBlockHeight: 0,
+        status: 'pending',
+        updatedAt: now
+      })),
+      skipped,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.rebuildBatches(airdrop, airdrop.batches);
+    await this.store.save(airdrop);
+
+    logger.info(`✅ Airdrop ${airdrop.id} prepared in ${airdrop.batches.length} transaction(s)`);
+    return this.toResponse(airdrop);
+  }
+
+  // Current airdrop with the status of sent batches refreshed from the chain
+  async getAirdrop(airdropId: string): Promise<AirdropResponse> {
+    const service = await this.getOwningService(airdropId);
+    if (service !== this) return service.getAirdrop(airdropId);
+
+    return this.withLock(airdropId, async () => {
+      const airdrop = await this.loadAirdrop(airdropId);
+      if (await this.refreshStatuses(airdrop)) {
+        await this.saveAirdrop(airdrop);
+      }
+      return this.toResponse(airdrop);
+    });
+  }
+
+  /**
+   * Sends one batch signed by the creator and waits for it to confirm.
+   * Resubmitting a confirmed batch returns the airdrop unchanged.
+   */
+  async submitBatch(
+    airdropId: string,
+    index: number,
+    signedTransactionBase64: string
+  ): Promise<AirdropResponse> {
+    const service = await this.getOwningService(airdropId);
+    if (service !== this) return service.submitBatch(airdropId, index, signedTransactionBase64);
+
+    const { airdrop, batch, signedTransaction } = await this.withLock(airdropId, async () => {
+      const airdrop = await this.loadAirdrop(airdropId);
+      const batch = this.getBatch(airdrop, index);
+      await this.refreshStatuses(airdrop);
+
+      if (batch.status === 'confirmed') {
+        return { airdrop, batch, signedTransaction: null };
+      }
+      if (batch.status !== 'pending') {
+        throw new ApiError(
+          batch.status === 'sent'
+            ? `Batch ${index} was already sent and is awaiting confirmation`
+            : `Batch ${index} is ${batch.status}; refresh the airdrop to rebuild it`,
+          'AIRDROP_BATCH_NOT_PENDING',
+          409
+        );
+      }
+
+      const preparedMessage = Buffer.from(deserializeTransaction(batch.transaction).message.serialize());
+      const signedTransaction = verifySignedTransaction(
+        signedTransactionBase64,
+        preparedMessage,
+        new PublicKey(airdrop.creatorWallet)
+      );
+
+      // Recorded before sending so the signature is tracked even if this process stops
+      const signature = getTransactionSignature(signedTransaction);
+      this.updateBatch(batch, {
+        status: 'sent',
+        signature,
+        explorerUrl: getExplorerUrl('tx', signature, this.cluster),
+        error: undefined
+      });
+      await this.saveAirdrop(airdrop);
+      return { airdrop, batch, signedTransaction };
+    });
+
+    if (!signedTransaction) {
+      return this.toResponse(airdrop);
+    }
+
+    logger.info(`📤 Sending airdrop ${airdropId} batch ${index} (${batch.recipients.length} transfers)`);
+
+    let changes: Partial<AirdropBatch>;
+    let sendError: unknown;
+    try {
+      await this.transactionSender.sendAndConfirm(signedTransaction, batch.lastValidBlockHeight);
+      changes = { status: 'confirmed' };
+      logger.info(`✅ Airdrop ${airdropId} batch ${index} confirmed`);
+    } catch (error) {
+      sendError = error;
+      changes = this.getFailureChanges(error);
+      logger.error(`❌ Airdrop ${airdropId} batch ${index} not confirmed:`, error);
+    }
+
+    const updated = await this.withLock(airdropId, async () => {
+      const latest = await this.loadAirdrop(airdropId);
+      const latestBatch = this.getBatch(latest, index);
+      // Only the attempt that sent this signature may settle the batch
+      if (latestBatch.signature === batch.signature) {
+        this.updateBatch(latestBatch, changes);
+        await this.saveAirdrop(latest);
+      }
+      return latest;
+    });
+
+    if (sendError) {
+      throw sendError;
+    }
+    return this.toResponse(updated);
+  }
+
+  // Rebuilds every batch that has not landed with a fresh blockhash
+  async refreshAirdrop(airdropId: string): Promise<AirdropResponse> {
+    const service = await this.getOwningService(airdropId);
+    if (service !== this) return service.refreshAirdrop(airdropId);
+
+    return this.withLock(airdropId, async () => {
+      const airdrop = await this.loadAirdrop(airdropId);
+      await this.refreshStatuses(airdrop);
+
+      const stale = airdrop.batches.filter((batch) => REBUILDABLE_STATUSES.includes(batch.status));
+      if (stale.length > 0) {
+        await this.rebuildBatches(airdrop, stale);
+        logger.info(`🔄 Rebuilt ${stale.length} batch(es) of airdrop ${airdropId}`);
+      }
+      await this.saveAirdrop(airdrop);
+      return this.toResponse(airdrop);
+    });
+  }
+
+  // Greedily fills each transaction up to the packet size limit
+  private packBatches(
+    recipients: AirdropRecipient[],
+    context: TransferContext,
+    transactionVersion: Airdrop['transactionVersion']
+  ): AirdropRecipient[][] {
+    const batches: AirdropRecipient[][] = [];
+    let current: AirdropRecipient[] = [];
+
+    for (const recipient of recipients) {
+      const candidate = [...current, recipient];
+      const instructions = [...PACKING_COMPUTE_BUDGET, ...this.createBatchInstructions(candidate, context)];
+      if (current.length > 0 && !fitsInTransaction(instructions, context.creator, transactionVersion)) {
+        batches.push(current);
+        current = [recipient];
+      } else {
+        current = candidate;
+      }
+    }
+    if (current.length > 0) batches.push(current);
+
+    return batches;
+  }
+
+  private createBatchInstructions(
+    recipients: AirdropRecipient[],
+    context: TransferContext
+  ): TransactionInstruction[] {
+    return recipients.flatMap((recipient) => {
+      const owner = new PublicKey(recipient.wallet);
+      const destination = getAssociatedTokenAddressSync(context.mint, owner, true, context.programId);
+      return [
+        createAssociatedTokenAccountIdempotentInstruction(
+          context.creator,
+          destination,
+          owner,
+          context.mint,
+          context.programId
+        ),
+        createTransferCheckedInstruction(
+          context.sourceTokenAccount,
+          context.mint,
+          destination,
+          context.creator,
+          BigInt(recipient.amount),
+          context.decimals,
+          [],
+          context.programId
+        )
+      ];
+    });
+  }
+
+  private async rebuildBatches(airdrop: Airdrop, batches: AirdropBatch[]): Promise<void> {
+    const context = this.getTransferContext(airdrop);
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+
+    for (const batch of batches) {
+      const transaction = buildTransaction(
+        [
+          ...this.priorityFeeService.createComputeBudgetInstructions({
+            ...airdrop.priorityFee,
+            computeUnitLimit: batch.computeUnitLimit
+          }),
+          ...this.createBatchInstructions(batch.recipients, context)
+        ],
+        context.creator,
+        blockhash,
+        airdrop.transactionVersion
+      );
+      this.updateBatch(batch, {
+        status: 'pending',
+        transaction: serializeUnsignedTransaction(transaction),
+        lastValidBlockHeight,
+        signature: undefined,
+        explorerUrl: undefined,
+        error: undefined
+      });
+    }
+  }
+
+  /**
+   * Settles sent batches from their signature status and expires batches
+   * whose blockhash is no longer valid. Returns whether anything changed.
+   */
+  private async refreshStatuses(airdrop: Airdrop): Promise<boolean> {
+    const open = airdrop.batches.filter((batch) => batch.status === 'sent' || batch.status === 'pending');
+    if (open.length === 0) return false;
+
+    const sent = open.filter((batch) => batch.status === 'sent' && batch.signature);
+    const [statuses, blockHeight] = await Promise.all([
+      sent.length > 0
+        ? this.connection
+            .getSignatureStatuses(sent.map((batch) => batch.signature!), { searchTransactionHistory: true })
+            .then((result) => result.value)
+        : Promise.resolve([]),
+      this.connection.getBlockHeight('confirmed')
+    ]);
+
+    let changed = false;
+    for (const batch of open) {
+      const status = batch.status === 'sent' ? statuses[sent.indexOf(batch)] : null;
+
+      if (status?.err) {
+        this.updateBatch(batch, { status: 'failed', error: JSON.stringify(status.err) });
+        changed = true;
+      } else if (
+        status &&
+        (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')
+      ) {
+        this.updateBatch(batch, { status: 'confirmed' });
+        changed = true;
+      } else if (!status && blockHeight > batch.lastValidBlockHeight) {
+        this.updateBatch(batch, { status: 'expired' });
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Only a failure seen on-chain settles the batch. After any other error the
+   * signed transaction may still land, so the batch stays 'sent' until
+   * refreshStatuses finds its status or its blockhash expires; rebuilding it
+   * earlier could pay the same recipients twice.
+   */
+  private getFailureChanges(error: unknown): Partial<AirdropBatch> {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof TransactionError && error.code === 'TRANSACTION_FAILED') {
+      return { status: 'failed', error: message };
+    }
+    return { error: message };
+  }
+
+  private getTransferContext(airdrop: Airdrop): TransferContext {
+    const creator = new PublicKey(airdrop.creatorWallet);
+    const mint = new PublicKey(airdrop.mintAddress);
+    const programId = new PublicKey(airdrop.programId);
+    return {
+      creator,
+      mint,
+      programId,
+      decimals: airdrop.decimals,
+      sourceTokenAccount: getAssociatedTokenAddressSync(mint, creator, true, programId)
+    };
+  }
+
+  private getBatch(airdrop: Airdrop, index: number): AirdropBatch {
+    const batch = airdrop.batches[index];
+    if (!batch) {
+      throw new ApiError(`Airdrop ${airdrop.id} has no batch ${index}`, 'AIRDROP_BATCH_NOT_FOUND', 404);
+    }
+    return batch;
+  }
+
+  private updateBatch(batch: AirdropBatch, changes: Partial<AirdropBatch>): void {
+    Object.assign(batch, changes, { updatedAt: Date.now() });
+  }
+
+  private async loadAirdrop(airdropId: string): Promise<Airdrop> {
+    const airdrop = await this.store.get(airdropId);
+    if (!airdrop) {
+      throw new ApiError(`Airdrop ${airdropId} not found`, 'AIRDROP_NOT_FOUND', 404);
+    }
+    return airdrop;
+  }
+
+  // Airdrops are tracked on the cluster they were prepared on
+  private async getOwningService(airdropId: string): Promise<AirdropService> {
+    const cluster = (await this.loadAirdrop(airdropId)).cluster ?? config.cluster;
+    return cluster === this.cluster ? this : getAirdropService(cluster);
+  }
+
+  private async saveAirdrop(airdrop: Airdrop): Promise<void> {
+    airdrop.updatedAt = Date.now();
+    await this.store.save(airdrop);
+  }
+
+  // Batches are often submitted in parallel; updates to one airdrop run one at a time
+  private async withLock<T>(airdropId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(airdropId) ?? Promise.resolve();
+    const run = previous.then(task);
+    const settled = run.then(
+      () => undefined,
+      () => undefined
+    );
+    this.locks.set(airdropId, settled);
+
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(airdropId) === settled) {
+        this.locks.delete(airdropId);
+      }
+    }
+  }
+
+  private toResponse(airdrop: Airdrop): AirdropResponse {
+    const progress: Record<AirdropBatchStatus, number> = {
+      pending: 0,
+      sent: 0,
+      confirmed: 0,
+      failed: 0,
+      expired: 0
+    };
+    for (const batch of airdrop.batches) {
+      progress[batch.status]++;
+    }
+
+    return {
+      ...airdrop,
+      totalRecipients: airdrop.batches.reduce((total, batch) => total + batch.recipients.length, 0),
+      progress
+    };
+  }
+}
+
+const sharedServices = new Map<SolanaCluster, AirdropService>();
+
+// One service per cluster, all sharing the airdrop store
+export function getAirdropService(cluster?: string): AirdropService {
+  return getClusterInstance(sharedServices, cluster, (resolved) => new AirdropService(resolved));
+}
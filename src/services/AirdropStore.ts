@@ -0,0 +1,39 @@
+import path from 'path';
+import { config } from '../config/index';
+import { Airdrop } from '../models/index';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+
+// Prepared airdrops and the confirmation status of their batches
+export interface AirdropStore {
+  get(airdropId: string): Promise<Airdrop | null>;
+  save(airdrop: Airdrop): Promise<void>;
+}
+
+// One JSON document per airdrop under dataDir/airdrops
+export class FileAirdropStore implements AirdropStore {
+  constructor(private directory: string) {}
+
+  private filePath(airdropId: string): string {
+    if (!/^[A-Za-z0-9-]+$/.test(airdropId)) {
+      throw new Error('Invalid airdrop ID');
+    }
+    return path.join(this.directory, `${airdropId}.json`);
+  }
+
+  async get(airdropId: string): Promise<Airdrop | null> {
+    return readJsonFile<Airdrop>(this.filePath(airdropId));
+  }
+
+  async save(airdrop: Airdrop): Promise<void> {
+    await writeJsonFileAtomic(this.filePath(airdrop.id), airdrop);
+  }
+}
+
+let sharedStore: AirdropStore | null = null;
+
+export function getAirdropStore(): AirdropStore {
+  if (!sharedStore) {
+    sharedStore = new FileAirdropStore(path.join(config.dataDir, 'airdrops'));
+  }
+  return sharedStore;
+}
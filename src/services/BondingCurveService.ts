@@ -0,0 +1,267 @@
+import { Connection, Keypair, PublicKey, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
+import { ACCOUNT_SIZE, NATIVE_MINT, getMint } from '@solana/spl-token';
+import {
+  ActivationType,
+  BaseFeeMode,
+  CollectFeeMode,
+  ConfigParameters,
+  DynamicBondingCurveClient,
+  MigrationFeeOption,
+  MigrationOption,
+  TokenAuthorityOption,
+  TokenDecimal,
+  TokenType,
+  buildCurveWithMarketCap,
+  deriveDbcPoolAddress,
+  getPriceFromSqrtPrice
+} from '@meteora-ag/dynamic-bonding-curve-sdk';
+import { TransactionSender } from './TransactionSender';
+import { config } from '../config/index';
+import { BondingCurveState } from '../models/index';
+import { ApiError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { buildTransaction } from '../utils/transaction';
+
+const logger = createLogger('BondingCurveService');
+
+// Pool config every bonding-curve launch is created against
+export interface DbcLaunchConfig {
+  configKey: PublicKey;
+  quoteMint: PublicKey;
+  quoteDecimals: number;
+  decimals: number;
+  supply: bigint; // base units, minted into the pool
+}
+
+/**
+ * Launches tokens into Meteora Dynamic Bonding Curve pools. Pools share one
+ * partner config (DBC_CONFIG_KEY), created once from the DBC_* curve
+ * parameters with `npm run dbc:create-config`.
+ */
+export class BondingCurveService {
+  private connection: Connection;
+  private client: DynamicBondingCurveClient;
+  private transactionSender: TransactionSender;
+  private launchConfig: Promise<DbcLaunchConfig> | null = null;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+    this.client = DynamicBondingCurveClient.create(connection, 'confirmed');
+    this.transactionSender = new TransactionSender(connection);
+  }
+
+  // Configs cannot change once created, so the first successful read is kept
+  getLaunchConfig(): Promise<DbcLaunchConfig> {
+    if (!this.launchConfig) {
+      this.launchConfig = this.loadLaunchConfig();
+      this.launchConfig.catch(() => {
+        this.launchConfig = null;
+      });
+    }
+    return this.launchConfig;
+  }
+
+  /**
+   * Instructions that create the mint, its metadata and the pool in one go;
+   * the pool program mints the whole supply into the curve. Signers are the
+   * creator (payer) and the mint keypair.
+   */
+  async createPoolInstructions(params: {
+    mint: PublicKey;
+    creator: PublicKey;
+    name: string;
+    symbol: string;
+    uri: string;
+  }): Promise<{ instructions: TransactionInstruction[]; poolAddress: PublicKey }> {
+    const { configKey, quoteMint } = await this.getLaunchConfig();
+    const transaction = await this.client.creator.createPool({
+      name: params.name,
+      symbol: params.symbol,
+      uri: params.uri,
+      payer: params.creator,
+      poolCreator: params.creator,
+      config: configKey,
+      baseMint: params.mint
+    });
+
+    return {
+      instructions: transaction.instructions,
+      poolAddress: deriveDbcPoolAddress(quoteMint, params.mint, configKey)
+    };
+  }
+
+  // Accounts a pool opens besides the mint and its metadata: the pool state and two vaults
+  getPoolAccountSpaces(): number[] {
+    return [this.client.state.program.account.virtualPool.size, ACCOUNT_SIZE, ACCOUNT_SIZE];
+  }
+
+  // Null when DBC is not configured or the mint has no pool on DBC_CONFIG_KEY
+  async getCurveState(mint: PublicKey): Promise<BondingCurveState | null> {
+    if (!config.dbcConfigKey) return null;
+
+    const launchConfig = await this.getLaunchConfig();
+    const poolAddress = deriveDbcPoolAddress(launchConfig.quoteMint, mint, launchConfig.configKey);
+    const virtualPool = await this.client.state.getPool(poolAddress);
+    if (!virtualPool) return null;
+
+    const pool = virtualPool.poolState;
+    const poolConfig = await this.client.state.getPoolConfig(pool.config);
+    if (!poolConfig) return null;
+
+    const quoteReserve = BigInt(pool.quoteReserve.toString());
+    const threshold = BigInt(poolConfig.migrationQuoteThreshold.toString());
+    const progress = threshold > 0n ? Number((quoteReserve * 10_000n) / threshold) / 10_000 : 0;
+
+    return {
+      poolAddress: poolAddress.toBase58(),
+      configAddress: pool.config.toBase58(),
+      quoteMint: poolConfig.quoteMint.toBase58(),
+      baseReserve: pool.baseReserve.toString(),
+      quoteReserve: quoteReserve.toString(),
+      migrationQuoteThreshold: threshold.toString(),
+      progress: Math.min(progress, 1),
+      price: getPriceFromSqrtPrice(
+        pool.sqrtPrice,
+        poolConfig.tokenDecimal,
+        launchConfig.quoteDecimals
+      ).toString(),
+      isMigrated: pool.isMigrated !== 0
+    };
+  }
+
+  /**
+   * Curve from the DBC_* settings, quoted in SOL: the price climbs from
+   * DBC_INITIAL_PRICE to DBC_TARGET_PRICE while DBC_MAX_SUPPLY_IN_CURVE tokens
+   * are sold and seed the migrated pool. That is DBC_MIGRATION_THRESHOLD of
+   * the supply; the rest is left over for the platform after migration.
+   * Trading fees are PLATFORM_FEE_BPS + CREATOR_FEE_BPS, split between them,
+   * and all migrated liquidity is locked permanently in the same split.
+   */
+  buildConfigParameters(): ConfigParameters {
+    const { dbcInitialPrice, dbcTargetPrice, dbcMigrationThreshold, dbcMaxSupplyInCurve } = config;
+    if (!(dbcMigrationThreshold > 0 && dbcMigrationThreshold <= 1)) {
+      throw new Error('DBC_MIGRATION_THRESHOLD must be greater than 0 and at most 1');
+    }
+    if (!(dbcInitialPrice > 0 && dbcTargetPrice > dbcInitialPrice)) {
+      throw new Error('DBC_TARGET_PRICE must be greater than DBC_INITIAL_PRICE');
+    }
+
+    const totalFeeBps = config.platformFeeBps + config.creatorFeeBps;
+    const creatorShare = totalFeeBps > 0 ? Math.round((config.creatorFeeBps / totalFeeBps) * 100) : 0;
+    const totalTokenSupply = Math.round(dbcMaxSupplyInCurve / dbcMigrationThreshold);
+
+    return buildCurveWithMarketCap({
+      token: {
+        tokenType: TokenType.SPLToken,
+        tokenBaseDecimal: config.defaultDecimals as TokenDecimal,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        tokenAuthorityOption: TokenAuthorityOption.Immutable,
+        totalTokenSupply,
+        leftover: totalTokenSupply - dbcMaxSupplyInCurve
+      },
+      fee: {
+        baseFeeParams: {
+          baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+          feeSchedulerParam: {
+            startingFeeBps: totalFeeBps,
+            endingFeeBps: totalFeeBps,
+            numberOfPeriod: 0,
+            totalDuration: 0
+          }
+        },
+        dynamicFeeEnabled: false,
+        collectFeeMode: CollectFeeMode.QuoteToken,
+        creatorTradingFeePercentage: creatorShare,
+        poolCreationFee: 0,
+        enableFirstSwapWithMinFee: false
+      },
+      migration: {
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        migrationFeeOption: MigrationFeeOption.FixedBps25,
+        migrationFee: { feePercentage: 0, creatorFeePercentage: 0 }
+      },
+      liquidityDistribution: {
+        partnerPermanentLockedLiquidityPercentage: 100 - creatorShare,
+        partnerLiquidityPercentage: 0,
+        creatorPermanentLockedLiquidityPercentage: creatorShare,
+        creatorLiquidityPercentage: 0
+      },
+      lockedVesting: {
+        totalLockedVestingAmount: 0,
+        numberOfVestingPeriod: 0,
+        cliffUnlockAmount: 0,
+        totalVestingDuration: 0,
+        cliffDurationFromMigrationTime: 0
+      },
+      activationType: ActivationType.Timestamp,
+      initialMarketCap: dbcInitialPrice * totalTokenSupply,
+      migrationMarketCap: dbcTargetPrice * totalTokenSupply
+    });
+  }
+
+  /**
+   * Creates the shared pool config with the platform as partner: it claims
+   * the platform's share of trading fees and receives the leftover supply.
+   */
+  async createConfig(payer: Keypair): Promise<{ configKey: PublicKey; signature: string }> {
+    const configKeypair = Keypair.generate();
+    const transaction = await this.client.partner.createConfig({
+      ...this.buildConfigParameters(),
+      config: configKeypair.publicKey,
+      feeClaimer: config.platformRewardAddress,
+      leftoverReceiver: config.platformRewardAddress,
+      quoteMint: NATIVE_MINT,
+      payer: payer.publicKey
+    });
+
+    logger.info(`🔧 Creating DBC config ${configKeypair.publicKey.toBase58()}...`);
+    const signature = await this.transactionSender.sendWithRetry(({ blockhash }) => {
+      const versioned = buildTransaction(
+        transaction.instructions,
+        payer.publicKey,
+        blockhash,
+        0
+      ) as VersionedTransaction;
+      versioned.sign([payer, configKeypair]);
+      return versioned;
+    });
+    logger.info(`✅ DBC config created: ${signature}`);
+
+    return { configKey: configKeypair.publicKey, signature };
+  }
+
+  private async loadLaunchConfig(): Promise<DbcLaunchConfig> {
+    if (!config.dbcConfigKey) {
+      throw new ApiError(
+        'Bonding curve launches are not configured (DBC_CONFIG_KEY is not set)',
+        'DBC_NOT_CONFIGURED',
+        503
+      );
+    }
+
+    const configKey = new PublicKey(config.dbcConfigKey);
+    const poolConfig = await this.client.state.getPoolConfig(configKey);
+    if (!poolConfig) {
+      throw new ApiError(`DBC config ${config.dbcConfigKey} not found`, 'DBC_CONFIG_NOT_FOUND', 503);
+    }
+    // Token-2022 pools keep metadata in the mint rather than in Metaplex
+    if (poolConfig.tokenType !== TokenType.SPLToken) {
+      throw new ApiError(
+        `DBC config ${config.dbcConfigKey} must launch SPL Token mints`,
+        'DBC_CONFIG_UNSUPPORTED',
+        503
+      );
+    }
+
+    const quoteMint = await getMint(this.connection, poolConfig.quoteMint);
+    logger.info(`📈 Using DBC config ${config.dbcConfigKey}`);
+
+    return {
+      configKey,
+      quoteMint: poolConfig.quoteMint,
+      quoteDecimals: quoteMint.decimals,
+      decimals: poolConfig.tokenDecimal,
+      supply: BigInt(poolConfig.preMigrationTokenSupply.toString())
+    };
+  }
+}
@@ -1,9 +1,13 @@
 import { createLogger } from '../utils/logger';
 import { config } from '../config/index';
+import { assertPublicUrl, publicDispatcher, readLimitedText } from '../utils/network';
 import FormData from 'form-data';
 
 const logger = createLogger('IpfsService');
 
+// Token metadata is a few KB; anything far larger is not worth parsing
+const METADATA_MAX_BYTES = 256 * 1024;
+
 export interface IpfsUploadResponse {
   ipfsHash: string;
   pinSize: number;
@@ -179,6 +183,43 @@ export class IpfsService {
     return `data:application/json,${encoded}`;
   }
 
+  /**
+   * Fetches and parses off-chain metadata JSON. Handles the data URIs written
+   * when Pinata is unavailable and ipfs:// links; other URIs must be https on
+   * a public host. Returns null if unreachable, refused or too large.
+   */
+  async fetchJson(uri: string): Promise<Partial<MetadataJson> | null> {
+    try {
+      if (uri.startsWith('data:')) {
+        const separator = uri.indexOf(',');
+        const payload = uri.slice(separator + 1);
+        const json = uri.slice(0, separator).endsWith(';base64')
+          ? Buffer.from(payload, 'base64').toString('utf8')
+          : decodeURIComponent(payload);
+        return JSON.parse(json);
+      }
+
+      const url = await assertPublicUrl(
+        uri.startsWith('ipfs://')
+          ? `https://gateway.pinata.cloud/ipfs/${uri.slice('ipfs://'.length)}`
+          : uri
+      );
+      const response = await fetch(url, {
+        redirect: 'manual', // a redirect could lead to a host assertPublicUrl would reject
+        dispatcher: publicDispatcher,
+        signal: AbortSignal.timeout(config.connectionTimeout),
+      });
+      if (!response.ok) {
+        throw new Error(`Metadata fetch failed: ${response.status} ${response.statusText}`);
+      }
+
+      return JSON.parse(await readLimitedText(response, METADATA_MAX_BYTES)) as Partial<MetadataJson>;
+    } catch (error) {
+      logger.warn(`Failed to fetch metadata JSON from ${uri.slice(0, 100)}:`, error);
+      return null;
+    }
+  }
+
   isValidIpfsHash(hash: string): boolean {
     const ipfsHashRegex = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
     return ipfsHashRegex.test(hash);
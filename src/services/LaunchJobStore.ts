@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index';
+import { LaunchJob } from '../models/index';
+import { readJsonFile, removeFile, writeJsonFileAtomic } from '../utils/jsonFile';
+
+// Persisted launch jobs, so queued and interrupted launches survive a restart
+export interface LaunchJobStore {
+  get(jobId: string): Promise<LaunchJob | null>;
+  list(): Promise<LaunchJob[]>;
+  save(job: LaunchJob): Promise<void>;
+  delete(jobId: string): Promise<void>;
+}
+
+// One JSON document per job under dataDir/jobs
+export class FileLaunchJobStore implements LaunchJobStore {
+  constructor(private directory: string) {}
+
+  private filePath(jobId: string): string {
+    if (!/^[A-Za-z0-9-]+$/.test(jobId)) {
+      throw new Error('Invalid job ID');
+    }
+    return path.join(this.directory, `${jobId}.json`);
+  }
+
+  async get(jobId: string): Promise<LaunchJob | null> {
+    return readJsonFile<LaunchJob>(this.filePath(jobId));
+  }
+
+  async list(): Promise<LaunchJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const jobs = await Promise.all(
+      files.filter((file) => file.endsWith('.json')).map((file) => this.get(path.basename(file, '.json')))
+    );
+    return jobs.filter((job): job is LaunchJob => job !== null);
+  }
+
+  async save(job: LaunchJob): Promise<void> {
+    await writeJsonFileAtomic(this.filePath(job.id), job);
+  }
+
+  async delete(jobId: string): Promise<void> {
+    await removeFile(this.filePath(jobId));
+  }
+}
+
+let sharedStore: LaunchJobStore | null = null;
+
+export function getLaunchJobStore(): LaunchJobStore {
+  if (!sharedStore) {
+    sharedStore = new FileLaunchJobStore(path.join(config.dataDir, 'jobs'));
+  }
+  return sharedStore;
+}
@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index';
+import {
+  DailyLaunchVolume,
+  LaunchRecord,
+  LaunchStatisticsResponse,
+  WalletLaunch
+} from '../models/index';
+import { getExplorerUrl } from '../utils/explorer';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('LaunchLedger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Append-only record of every prepare/execute/launch call
+export interface LaunchLedger {
+  append(record: LaunchRecord): Promise<void>;
+  list(): Promise<LaunchRecord[]>;
+}
+
+// One JSON document per line; appends are small enough to never interleave
+export class FileLaunchLedger implements LaunchLedger {
+  constructor(private filePath: string) {}
+
+  async append(record: LaunchRecord): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+  }
+
+  async list(): Promise<LaunchRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: LaunchRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as LaunchRecord);
+      } catch {
+        logger.warn('Skipping malformed ledger line');
+      }
+    }
+    return records;
+  }
+}
+
+let sharedLedger: LaunchLedger | null = null;
+
+export function getLaunchLedger(): LaunchLedger {
+  if (!sharedLedger) {
+    sharedLedger = new FileLaunchLedger(path.join(config.dataDir, config.ledgerFile));
+  }
+  return sharedLedger;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Aggregates ledger records into the /stats response. Attempts are execute and
+ * launch calls; a launch is a successful attempt. Daily volume covers the last
+ * `days` UTC days, oldest first.
+ */
+export function summarizeLaunches(
+  records: LaunchRecord[],
+  now: number = Date.now(),
+  days: number = config.statsDays
+): LaunchStatisticsResponse {
+  const attempts = records.filter((record) => record.operation !== 'prepare');
+  const launches = attempts.filter((record) => record.outcome === 'success');
+  const medianLaunchTimeMs = median(launches.map((record) => record.durationMs));
+
+  const volume = new Map<string, DailyLaunchVolume>();
+  const today = Math.floor(now / DAY_MS) * DAY_MS;
+  for (let day = days - 1; day >= 0; day--) {
+    const date = new Date(today - day * DAY_MS).toISOString().slice(0, 10);
+    volume.set(date, { date, launches: 0, failures: 0, feesLamports: 0 });
+  }
+  for (const record of attempts) {
+    const entry = volume.get(new Date(record.completedAt).toISOString().slice(0, 10));
+    if (!entry) continue;
+    if (record.outcome === 'success') {
+      entry.launches++;
+      entry.feesLamports += record.feeLamports;
+    } else {
+      entry.failures++;
+    }
+  }
+
+  return {
+    totalTokensLaunched: new Set(launches.map((record) => record.mintAddress)).size,
+    totalPrepared: records.filter(
+      (record) => record.operation === 'prepare' && record.outcome === 'success'
+    ).length,
+    totalAttempts: attempts.length,
+    failedAttempts: attempts.length - launches.length,
+    successRate: attempts.length
+      ? `${((launches.length / attempts.length) * 100).toFixed(1)}%`
+      : null,
+    medianLaunchTimeMs,
+    medianLaunchTime:
+      medianLaunchTimeMs === null ? null : `${(medianLaunchTimeMs / 1000).toFixed(1)} seconds`,
+    totalFeesLamports: launches.reduce((total, record) => total + record.feeLamports, 0),
+    dailyVolume: [...volume.values()]
+  };
+}
+
+/**
+ * Merges a wallet's ledger records into one entry per mint. A launch is
+ * completed once any attempt succeeded, otherwise its latest attempt decides.
+ */
+export function collectWalletLaunches(records: LaunchRecord[], wallet: string): WalletLaunch[] {
+  const launches = new Map<string, WalletLaunch>();
+
+  const ordered = records
+    .filter((record) => record.wallet === wallet && record.mintAddress)
+    .sort((a, b) => a.completedAt - b.completedAt);
+
+  for (const record of ordered) {
+    const mintAddress = record.mintAddress!;
+    const cluster = record.cluster ?? config.cluster;
+    const launch = launches.get(mintAddress) ?? {
+      mintAddress,
+      name: record.name,
+      symbol: record.symbol,
+      cluster,
+      status: 'prepared',
+      signatures: [],
+      explorerUrls: {
+        token: getExplorerUrl('token', mintAddress, cluster),
+        transactions: []
+      },
+      createdAt: record.startedAt,
+      updatedAt: record.completedAt
+    };
+
+    launch.sessionId = launch.sessionId ?? record.sessionId;
+    launch.image = record.image ?? launch.image;
+    launch.metadataUri = record.metadataUri ?? launch.metadataUri;
+    launch.executionMode = record.executionMode ?? launch.executionMode;
+    launch.updatedAt = record.completedAt;
+    for (const signature of record.signatures) {
+      if (!launch.signatures.includes(signature)) {
+        launch.signatures.push(signature);
+        launch.explorerUrls.transactions.push(getExplorerUrl('tx', signature, launch.cluster));
+      }
+    }
+
+    if (record.operation === 'prepare') {
+      // A failed prepare never produced a session the user could sign
+      if (record.outcome === 'failure') continue;
+    } else if (launch.status !== 'completed') {
+      launch.status = record.outcome === 'success' ? 'completed' : 'failed';
+      launch.error = record.outcome === 'success' ? undefined : record.error;
+    }
+
+    launches.set(mintAddress, launch);
+  }
+
+  return [...launches.values()];
+}
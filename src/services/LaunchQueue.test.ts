@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index';
+import { LaunchJob, LaunchSession } from '../models/index';
+import { TransactionError } from '../utils/errors';
+import { LaunchJobStore } from './LaunchJobStore';
+import { LaunchQueue } from './LaunchQueue';
+import { InMemorySessionStore } from './SessionStore';
+
+const tokenService = vi.hoisted(() => ({
+  executeTokenTransaction: vi.fn(),
+  launchToken: vi.fn(),
+  uploadRequestImage: vi.fn(),
+  releaseInterruptedSession: vi.fn()
+}));
+vi.mock('./TokenService', () => ({ getTokenService: () => tokenService }));
+
+class MemoryJobStore implements LaunchJobStore {
+  jobs = new Map<string, LaunchJob>();
+
+  async get(jobId: string) {
+    return this.jobs.get(jobId) ?? null;
+  }
+
+  async list() {
+    return [...this.jobs.values()];
+  }
+
+  async save(job: LaunchJob) {
+    this.jobs.set(job.id, job);
+  }
+
+  async delete(jobId: string) {
+    this.jobs.delete(jobId);
+  }
+}
+
+async function waitForJob(store: MemoryJobStore, jobId: string): Promise<LaunchJob> {
+  await vi.waitFor(async () => {
+    const job = await store.get(jobId);
+    if (job?.status !== 'completed' && job?.status !== 'failed') throw new Error('Job still running');
+  });
+  return (await store.get(jobId))!;
+}
+
+describe('LaunchQueue retries', () => {
+  let store: MemoryJobStore;
+  let queue: LaunchQueue;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    config.launchJobRetryBaseMs = 1;
+    config.launchJobMaxAttempts = 3;
+
+    store = new MemoryJobStore();
+    const sessionStore = new InMemorySessionStore();
+    await sessionStore.save({
+      id: 'session-1',
+      mintAddress: 'mint',
+      request: { userWallet: 'wallet', name: 'Token', symbol: 'TKN' }
+    } as LaunchSession);
+    queue = new LaunchQueue(store, sessionStore);
+  });
+
+  it('retries a launch whose RPC connection dropped', async () => {
+    tokenService.executeTokenTransaction
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockRejectedValueOnce(
+        new TransactionError('Transaction was not confirmed within 45000ms', 'TRANSACTION_TIMEOUT', 'sig', [], 504)
+      )
+      .mockResolvedValueOnce({ success: true, mintAddress: 'mint' });
+
+    const { id } = await queue.enqueueExecute({ sessionId: 'session-1', signedTransaction: 'signed' });
+    const job = await waitForJob(store, id);
+
+    expect(job).toMatchObject({ status: 'completed', attempts: 3 });
+    expect(tokenService.executeTokenTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('tells the launch which failures are final, so only those are recorded', async () => {
+    const dropped = new TypeError('fetch failed');
+    const rejected = new TransactionError('Transaction simulation failed', 'TRANSACTION_SIMULATION_FAILED');
+    const finals: boolean[][] = [];
+    tokenService.executeTokenTransaction.mockImplementation(async (_request, attempt) => {
+      finals.push([attempt.isFinal(dropped), attempt.isFinal(rejected)]);
+      throw dropped;
+    });
+
+    const { id } = await queue.enqueueExecute({ sessionId: 'session-1', signedTransaction: 'signed' });
+    await waitForJob(store, id);
+
+    const attempts = tokenService.executeTokenTransaction.mock.calls.map(([, attempt]) => attempt.number);
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(finals).toEqual([
+      [false, true],
+      [false, true],
+      [true, true]
+    ]);
+  });
+
+  it('fails a rejected transaction without retrying', async () => {
+    tokenService.executeTokenTransaction.mockRejectedValueOnce(
+      new TransactionError('Transaction simulation failed', 'TRANSACTION_SIMULATION_FAILED', 'sig', ['log'])
+    );
+
+    const { id } = await queue.enqueueExecute({ sessionId: 'session-1', signedTransaction: 'signed' });
+    const job = await waitForJob(store, id);
+
+    expect(job).toMatchObject({ status: 'failed', attempts: 1, errorCode: 'TRANSACTION_SIMULATION_FAILED' });
+  });
+
+  it('gives up after the last attempt', async () => {
+    tokenService.executeTokenTransaction.mockRejectedValue(new TypeError('fetch failed'));
+
+    const { id } = await queue.enqueueExecute({ sessionId: 'session-1', signedTransaction: 'signed' });
+    const job = await waitForJob(store, id);
+
+    expect(job).toMatchObject({ status: 'failed', attempts: 3, error: 'fetch failed' });
+  });
+});
+
+describe('LaunchQueue.enqueueLaunch', () => {
+  it('saves the uploaded image URL instead of the base64 image', async () => {
+    vi.resetAllMocks();
+    tokenService.uploadRequestImage.mockImplementation(async (request) => ({
+      ...request,
+      imageUpload: undefined,
+      imageUrl: 'https://gateway.pinata.cloud/ipfs/image'
+    }));
+    tokenService.launchToken.mockReturnValue(new Promise(() => {}));
+
+    const store = new MemoryJobStore();
+    const queue = new LaunchQueue(store, new InMemorySessionStore());
+    const { id } = await queue.enqueueLaunch({
+      name: 'Token',
+      symbol: 'TKN',
+      userWallet: 'wallet',
+      imageUpload: Buffer.alloc(1024).toString('base64')
+    });
+
+    const job = await store.get(id);
+    expect(job?.request).toMatchObject({ imageUpload: undefined, imageUrl: 'https://gateway.pinata.cloud/ipfs/image' });
+  });
+});
@@ -0,0 +1,315 @@
+import { Keypair } from '@solana/web3.js';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/index';
+import {
+  ExecuteTokenRequest,
+  LaunchJob,
+  LaunchJobResponse,
+  LaunchJobStatus,
+  LaunchTokenRequest
+} from '../models/index';
+import { LaunchJobStore, getLaunchJobStore } from './LaunchJobStore';
+import { SessionStore, getSessionStore } from './SessionStore';
+import { LaunchAttempt, getTokenService } from './TokenService';
+import { resolveCluster } from '../utils/cluster';
+import { decryptSecret, encryptSecret } from '../utils/crypto';
+import { ApiError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('LaunchQueue');
+
+export interface LaunchJobQuery {
+  wallet?: string;
+  status?: LaunchJobStatus;
+  limit?: number;
+}
+
+type LaunchJobDraft = Pick<
+  LaunchJob,
+  'type' | 'wallet' | 'cluster' | 'request' | 'sessionId' | 'mintAddress' | 'encryptedMintSecret'
+>;
+
+function toJobResponse({ request: _request, encryptedMintSecret: _secret, ...job }: LaunchJob): LaunchJobResponse {
+  return job;
+}
+
+// Rejections (bad signature, missing or busy session, failed simulation) fail the job at once;
+// network and RPC errors, including a send whose outcome is unknown, are retried
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof ApiError && error.statusCode < 500);
+}
+
+/**
+ * Runs /execute and /launch in the background. At most
+ * config.launchConcurrency launches use the master wallet at once and each
+ * wallet has one running at a time; the next job goes to the wallet served
+ * least recently. Failed attempts are retried with exponential backoff, and
+ * jobs are persisted so a restart picks up queued and interrupted launches.
+ */
+export class LaunchQueue {
+  private store: LaunchJobStore;
+  private sessionStore: SessionStore;
+  private queued: LaunchJob[] = [];
+  private running: Map<string, LaunchJob> = new Map();
+  private lastStartedAt: Map<string, number> = new Map(); // per wallet with jobs waiting
+  private wakeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    store: LaunchJobStore = getLaunchJobStore(),
+    sessionStore: SessionStore = getSessionStore()
+  ) {
+    this.store = store;
+    this.sessionStore = sessionStore;
+  }
+
+  // Resubmitting a session that is already queued or running returns its job
+  async enqueueExecute(request: ExecuteTokenRequest): Promise<LaunchJobResponse> {
+    const session = await this.sessionStore.get(request.sessionId);
+    if (!session) {
+      throw new ApiError('Session not found or expired', 'SESSION_NOT_FOUND', 404);
+    }
+
+    const active = [...this.queued, ...this.running.values()].find(
+      (job) => job.sessionId === request.sessionId
+    );
+    if (active) return toJobResponse(active);
+
+    return this.enqueue({
+      type: 'execute',
+      wallet: session.request.userWallet,
+      cluster: session.request.cluster ?? config.cluster,
+      request: { sessionId: request.sessionId, signedTransaction: request.signedTransaction },
+      sessionId: request.sessionId,
+      mintAddress: session.mintAddress
+    });
+  }
+
+  // The image is uploaded first; a base64 image would be rewritten with every job update
+  async enqueueLaunch(request: LaunchTokenRequest): Promise<LaunchJobResponse> {
+    const cluster = resolveCluster(request.cluster);
+    const mintKeypair = Keypair.generate();
+    return this.enqueue({
+      type: 'launch',
+      wallet: request.userWallet,
+      cluster,
+      request: await getTokenService(cluster).uploadRequestImage(request),
+      mintAddress: mintKeypair.publicKey.toBase58(),
+      encryptedMintSecret: encryptSecret(mintKeypair.secretKey)
+    });
+  }
+
+  async getJob(jobId: string): Promise<LaunchJobResponse> {
+    const job = await this.store.get(jobId);
+    if (!job) {
+      throw new ApiError(`Job ${jobId} not found`, 'JOB_NOT_FOUND', 404);
+    }
+    return toJobResponse(job);
+  }
+
+  // Newest first
+  async listJobs(query: LaunchJobQuery = {}): Promise<LaunchJobResponse[]> {
+    const jobs = await this.pruneJobs(await this.store.list());
+    return jobs
+      .filter((job) => !query.wallet || job.wallet === query.wallet)
+      .filter((job) => !query.status || job.status === query.status)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, query.limit ?? 20)
+      .map(toJobResponse);
+  }
+
+  // Queues persisted jobs; attempts cut off by a restart run again without counting
+  async start(): Promise<void> {
+    const jobs = await this.pruneJobs(await this.store.list());
+    for (const job of jobs) {
+      if (job.status === 'running') {
+        this.queued.push(await this.recover(job));
+      } else if (job.status === 'queued') {
+        this.queued.push(job);
+      }
+    }
+    if (this.queued.length > 0) {
+      logger.info(`📋 Resumed ${this.queued.length} launch job(s)`);
+    }
+    this.pump();
+  }
+
+  private async enqueue(draft: LaunchJobDraft): Promise<LaunchJobResponse> {
+    const now = Date.now();
+    const job: LaunchJob = {
+      id: uuidv4(),
+      status: 'queued',
+      ...draft,
+      attempts: 0,
+      maxAttempts: config.launchJobMaxAttempts,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Queued before the write so a concurrent resubmission of the session finds it
+    this.queued.push(job);
+    try {
+      await this.store.save(job);
+    } catch (error) {
+      this.queued = this.queued.filter((item) => item !== job);
+      throw error;
+    }
+    logger.info(`📋 Job ${job.id} queued: ${job.type} for ${job.wallet}`);
+
+    this.pump();
+    return toJobResponse(job);
+  }
+
+  private async recover(job: LaunchJob): Promise<LaunchJob> {
+    if (job.sessionId) {
+      try {
+        await getTokenService(job.cluster).releaseInterruptedSession(job.sessionId);
+      } catch (error) {
+        logger.warn(`Failed to release session ${job.sessionId} of job ${job.id}:`, error);
+      }
+    }
+    logger.info(`↩️ Job ${job.id} was interrupted, queueing it again`);
+    return this.update(job, { status: 'queued', attempts: Math.max(job.attempts - 1, 0) });
+  }
+
+  // One clock reading for both, so a job that turns ready in between is either taken or woken for
+  private pump(): void {
+    const now = Date.now();
+    while (this.running.size < config.launchConcurrency) {
+      const job = this.takeNext(now);
+      if (!job) break;
+      this.running.set(job.id, job);
+      void this.run(job);
+    }
+    this.scheduleWake(now);
+  }
+
+  // Ready jobs of wallets with nothing running: the wallet served least recently, then the oldest job
+  private takeNext(now: number): LaunchJob | undefined {
+    const busyWallets = new Set([...this.running.values()].map((job) => job.wallet));
+    const [next] = this.queued
+      .filter((job) => !busyWallets.has(job.wallet) && (job.nextAttemptAt ?? 0) <= now)
+      .sort(
+        (a, b) =>
+          (this.lastStartedAt.get(a.wallet) ?? 0) - (this.lastStartedAt.get(b.wallet) ?? 0) ||
+          a.createdAt - b.createdAt
+      );
+    if (next) {
+      this.queued = this.queued.filter((job) => job !== next);
+      this.lastStartedAt.set(next.wallet, now);
+    }
+    return next;
+  }
+
+  // Pumps again when the earliest backed-off job becomes ready
+  private scheduleWake(now: number): void {
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    this.wakeTimer = null;
+
+    const retryTimes = this.queued
+      .map((job) => job.nextAttemptAt ?? 0)
+      .filter((time) => time > now);
+    if (retryTimes.length === 0) return;
+
+    this.wakeTimer = setTimeout(() => this.pump(), Math.max(Math.min(...retryTimes) - Date.now(), 0));
+    this.wakeTimer.unref();
+  }
+
+  private async run(job: LaunchJob): Promise<void> {
+    try {
+      job = await this.update(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        nextAttemptAt: undefined,
+        startedAt: job.startedAt ?? Date.now()
+      });
+      this.running.set(job.id, job);
+      logger.info(`▶️ Job ${job.id} (${job.type}) attempt ${job.attempts}/${job.maxAttempts} for ${job.wallet}`);
+
+      const tokenService = getTokenService(job.cluster);
+      const attempt: LaunchAttempt = {
+        number: job.attempts,
+        isFinal: (error) => !this.willRetry(job, error)
+      };
+      const result =
+        job.type === 'execute'
+          ? await tokenService.executeTokenTransaction(job.request as ExecuteTokenRequest, attempt)
+          : await tokenService.launchToken(
+              job.request as LaunchTokenRequest,
+              Keypair.fromSecretKey(decryptSecret(job.encryptedMintSecret!)),
+              attempt
+            );
+
+      await this.update(job, {
+        status: 'completed',
+        result,
+        mintAddress: result.mintAddress,
+        error: undefined,
+        errorCode: undefined,
+        completedAt: Date.now()
+      });
+      logger.info(`✅ Job ${job.id} completed: ${result.mintAddress}`);
+    } catch (error) {
+      await this.fail(job, error).catch((storeError) =>
+        logger.error(`Failed to record failure of job ${job.id}:`, storeError)
+      );
+    } finally {
+      this.running.delete(job.id);
+      if (!this.queued.some((item) => item.wallet === job.wallet)) {
+        this.lastStartedAt.delete(job.wallet);
+      }
+      this.pump();
+    }
+  }
+
+  private async fail(job: LaunchJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = error instanceof ApiError ? error.code : undefined;
+
+    if (this.willRetry(job, error)) {
+      const retryDelayMs = config.launchJobRetryBaseMs * 2 ** (job.attempts - 1);
+      this.queued.push(
+        await this.update(job, {
+          status: 'queued',
+          error: message,
+          errorCode,
+          nextAttemptAt: Date.now() + retryDelayMs
+        })
+      );
+      logger.warn(`⏳ Job ${job.id} failed (${message}), retrying in ${retryDelayMs}ms`);
+      return;
+    }
+
+    await this.update(job, { status: 'failed', error: message, errorCode, completedAt: Date.now() });
+    logger.error(`❌ Job ${job.id} failed after ${job.attempts} attempt(s): ${message}`);
+  }
+
+  private willRetry(job: LaunchJob, error: unknown): boolean {
+    return isRetryable(error) && job.attempts < job.maxAttempts;
+  }
+
+  private async update(job: LaunchJob, changes: Partial<LaunchJob>): Promise<LaunchJob> {
+    const updated = { ...job, ...changes, updatedAt: Date.now() };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  // Finished jobs older than config.launchJobTtlMs are dropped
+  private async pruneJobs(jobs: LaunchJob[]): Promise<LaunchJob[]> {
+    const cutoff = Date.now() - config.launchJobTtlMs;
+    const expired = jobs.filter(
+      (job) => (job.status === 'completed' || job.status === 'failed') && job.updatedAt < cutoff
+    );
+    await Promise.all(expired.map((job) => this.store.delete(job.id)));
+    return jobs.filter((job) => !expired.includes(job));
+  }
+}
+
+let sharedQueue: LaunchQueue | null = null;
+
+// One queue per process, so concurrency limits hold across routes
+export function getLaunchQueue(): LaunchQueue {
+  if (!sharedQueue) {
+    sharedQueue = new LaunchQueue();
+  }
+  return sharedQueue;
+}
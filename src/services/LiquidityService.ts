@@ -0,0 +1,217 @@
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  NATIVE_MINT,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount
+} from '@solana/spl-token';
+import { PriorityFeeService } from './PriorityFeeService';
+import { config } from '../config/index';
+import {
+  LiquidityInfo,
+  LpLockOption,
+  PriorityFeeInfo,
+  SolanaCluster,
+  TransactionVersionOption
+} from '../models/index';
+import { ApiError, TransactionError } from '../utils/errors';
+import { getExplorerUrl } from '../utils/explorer';
+import { createLogger } from '../utils/logger';
+import {
+  CpmmPoolAddresses,
+  createCpmmInitializeInstruction,
+  getCpmmPoolAddresses,
+  getInitialLpAmount
+} from '../utils/cpmmProgram';
+import { buildTransaction, serializeUnsignedTransaction } from '../utils/transaction';
+import { formatTokenAmount } from '../utils/validation';
+
+const logger = createLogger('LiquidityService');
+
+export interface PoolTransactionParams {
+  mint: PublicKey;
+  creator: PublicKey; // holds the tokens, pays for the pool and signs
+  decimals: number;
+  tokenAmount: bigint; // base units
+  solAmount: bigint; // lamports
+  lpLock: LpLockOption;
+  priorityFee: PriorityFeeInfo; // compute unit price; the limit is simulated
+  transactionVersion: TransactionVersionOption;
+}
+
+// LP tokens minted to the creator and the platform's share of them
+export function getLiquidityLpAmounts(
+  tokenAmount: bigint,
+  solAmount: bigint
+): { lpAmount: bigint; platformLpAmount: bigint } {
+  const lpAmount = getInitialLpAmount(tokenAmount, solAmount);
+  const platformLpAmount = config.platformRewardAddress.equals(SystemProgram.programId)
+    ? 0n
+    : (lpAmount * BigInt(config.platformLpShareBps)) / 10_000n;
+  return { lpAmount, platformLpAmount };
+}
+
+/**
+ * Seeds Raydium CPMM token/SOL pools from the creator's wallet in one
+ * transaction the creator signs: wrap the SOL, create the pool with both
+ * deposits, send the platform its share of the LP tokens and burn the rest
+ * when asked to.
+ */
+export class LiquidityService {
+  private connection: Connection;
+  private cluster: SolanaCluster;
+  private priorityFeeService: PriorityFeeService;
+
+  constructor(connection: Connection, cluster: SolanaCluster = config.cluster) {
+    this.connection = connection;
+    this.cluster = cluster;
+    this.priorityFeeService = new PriorityFeeService(connection);
+  }
+
+  async buildPoolTransaction(params: PoolTransactionParams): Promise<LiquidityInfo> {
+    const { mint, creator, tokenAmount, solAmount } = params;
+    const addresses = getCpmmPoolAddresses(mint, NATIVE_MINT);
+    const { lpAmount, platformLpAmount } = getLiquidityLpAmounts(tokenAmount, solAmount);
+    if (lpAmount <= 0n) {
+      throw new ApiError('Liquidity is too small to mint LP tokens', 'LIQUIDITY_TOO_SMALL');
+    }
+
+    const tokenAccount = getAssociatedTokenAddressSync(mint, creator);
+    const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, creator);
+    const [poolInfo, tokenInfo, wsolInfo] = await this.connection.getMultipleAccountsInfo(
+      [addresses.pool, tokenAccount, wsolAccount],
+      'confirmed'
+    );
+    if (poolInfo) {
+      throw new ApiError(`Pool ${addresses.pool.toBase58()} already exists`, 'POOL_EXISTS', 409);
+    }
+    const balance = tokenInfo ? unpackAccount(tokenAccount, tokenInfo).amount : 0n;
+    if (balance < tokenAmount) {
+      throw new ApiError(
+        `Liquidity needs ${formatTokenAmount(tokenAmount, params.decimals)} tokens but ${creator.toBase58()} holds ${formatTokenAmount(balance, params.decimals)}`,
+        'INSUFFICIENT_TOKEN_BALANCE'
+      );
+    }
+
+    const instructions = this.createPoolInstructions(params, addresses, lpAmount, platformLpAmount, !wsolInfo);
+    const computeUnitLimit = await this.priorityFeeService.estimateComputeUnits(instructions, creator);
+    const priorityFee: PriorityFeeInfo = {
+      ...params.priorityFee,
+      computeUnitLimit,
+      estimatedFeeLamports: Math.ceil((params.priorityFee.microLamports * computeUnitLimit) / 1_000_000)
+    };
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    const transaction = buildTransaction(
+      [...this.priorityFeeService.createComputeBudgetInstructions(priorityFee), ...instructions],
+      creator,
+      blockhash,
+      params.transactionVersion
+    );
+
+    logger.info(`💧 Pool transaction for ${mint.toBase58()} built: ${addresses.pool.toBase58()}`);
+    return {
+      poolAddress: addresses.pool.toBase58(),
+      explorerUrl: getExplorerUrl('address', addresses.pool.toBase58(), this.cluster),
+      lpMint: addresses.lpMint.toBase58(),
+      tokenAmount: tokenAmount.toString(),
+      solAmount: solAmount.toString(),
+      lpAmount: lpAmount.toString(),
+      platformLpAmount: platformLpAmount.toString(),
+      lpLock: params.lpLock,
+      transaction: serializeUnsignedTransaction(transaction),
+      lastValidBlockHeight,
+      status: 'pending',
+      updatedAt: Date.now()
+    };
+  }
+
+  /**
+   * Settles a sent pool transaction from its signature status and expires a
+   * pending one whose blockhash is no longer valid.
+   */
+  async refreshStatus(liquidity: LiquidityInfo): Promise<LiquidityInfo> {
+    if (liquidity.status !== 'sent' && liquidity.status !== 'pending') return liquidity;
+
+    const [status, blockHeight] = await Promise.all([
+      liquidity.status === 'sent' && liquidity.signature
+        ? this.connection
+            .getSignatureStatuses([liquidity.signature], { searchTransactionHistory: true })
+            .then((result) => result.value[0])
+        : Promise.resolve(null),
+      this.connection.getBlockHeight('confirmed')
+    ]);
+
+    if (status?.err) {
+      return { ...liquidity, status: 'failed', error: JSON.stringify(status.err), updatedAt: Date.now() };
+    }
+    if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+      return { ...liquidity, status: 'confirmed', updatedAt: Date.now() };
+    }
+    if (!status && blockHeight > liquidity.lastValidBlockHeight) {
+      return { ...liquidity, status: 'expired', updatedAt: Date.now() };
+    }
+    return liquidity;
+  }
+
+  // Only an on-chain failure settles the pool; otherwise it may still land and stays 'sent' for refreshStatus
+  getFailureChanges(error: unknown): Partial<LiquidityInfo> {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof TransactionError && error.code === 'TRANSACTION_FAILED') {
+      return { status: 'failed', error: message };
+    }
+    return { error: message };
+  }
+
+  private createPoolInstructions(
+    params: PoolTransactionParams,
+    addresses: CpmmPoolAddresses,
+    lpAmount: bigint,
+    platformLpAmount: bigint,
+    closeWsolAccount: boolean
+  ): TransactionInstruction[] {
+    const { mint, creator } = params;
+    const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, creator);
+    const lpAccount = getAssociatedTokenAddressSync(addresses.lpMint, creator);
+    const [amount0, amount1] = addresses.token0Mint.equals(mint)
+      ? [params.tokenAmount, params.solAmount]
+      : [params.solAmount, params.tokenAmount];
+
+    const instructions: TransactionInstruction[] = [
+      createAssociatedTokenAccountIdempotentInstruction(creator, wsolAccount, creator, NATIVE_MINT),
+      SystemProgram.transfer({ fromPubkey: creator, toPubkey: wsolAccount, lamports: params.solAmount }),
+      createSyncNativeInstruction(wsolAccount),
+      createCpmmInitializeInstruction(creator, addresses, amount0, amount1)
+    ];
+
+    if (platformLpAmount > 0n) {
+      const platformLpAccount = getAssociatedTokenAddressSync(
+        addresses.lpMint,
+        config.platformRewardAddress,
+        true
+      );
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          creator,
+          platformLpAccount,
+          config.platformRewardAddress,
+          addresses.lpMint
+        ),
+        createTransferInstruction(lpAccount, platformLpAccount, creator, platformLpAmount)
+      );
+    }
+    if (params.lpLock === 'burn') {
+      instructions.push(createBurnInstruction(lpAccount, addresses.lpMint, creator, lpAmount - platformLpAmount));
+    }
+    // Only a WSOL account opened here is closed, so SOL the creator already wrapped stays wrapped
+    if (closeWsolAccount) {
+      instructions.push(createCloseAccountInstruction(wsolAccount, creator, creator));
+    }
+
+    return instructions;
+  }
+}
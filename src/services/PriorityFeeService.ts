@@ -0,0 +1,145 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SimulatedTransactionResponse,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { config } from '../config/index';
+import { PriorityFeeInfo, PriorityLevel } from '../models/index';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('PriorityFeeService');
+
+// Percentile of recent non-zero prioritization fees used for each level
+const LEVEL_PERCENTILES: Record<Exclude<PriorityLevel, 'custom'>, number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+};
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+const COMPUTE_UNIT_MARGIN = 1.2;
+
+export class PriorityFeeService {
+  constructor(private connection: Connection) {}
+
+  /**
+   * Resolves a compute unit price for the requested level and a compute unit
+   * limit for the given instructions (simulated, falling back to the default).
+   */
+  async getPriorityFee(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    level: PriorityLevel = config.priorityLevel,
+    customMicroLamports?: number
+  ): Promise<PriorityFeeInfo> {
+    const writableAccounts = this.getWritableAccounts(instructions);
+    const [microLamports, computeUnitLimit] = await Promise.all([
+      this.getComputeUnitPrice(level, customMicroLamports, writableAccounts),
+      this.estimateComputeUnits(instructions, payer),
+    ]);
+
+    return {
+      level,
+      microLamports,
+      computeUnitLimit,
+      estimatedFeeLamports: Math.ceil((microLamports * computeUnitLimit) / 1_000_000),
+    };
+  }
+
+  createComputeBudgetInstructions(priorityFee: PriorityFeeInfo): TransactionInstruction[] {
+    const instructions = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: priorityFee.computeUnitLimit }),
+    ];
+    if (priorityFee.microLamports > 0) {
+      instructions.push(
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee.microLamports })
+      );
+    }
+    return instructions;
+  }
+
+  async getComputeUnitPrice(
+    level: PriorityLevel,
+    customMicroLamports?: number,
+    writableAccounts: PublicKey[] = []
+  ): Promise<number> {
+    if (level === 'custom') {
+      if (customMicroLamports === undefined || customMicroLamports < 0) {
+        throw new Error('priorityFeeMicroLamports is required for the custom priority level');
+      }
+      return Math.floor(customMicroLamports);
+    }
+
+    let fees: number[] = [];
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts.slice(0, 128),
+      });
+      fees = recent
+        .map((entry) => entry.prioritizationFee)
+        .filter((fee) => fee > 0)
+        .sort((a, b) => a - b);
+    } catch (error) {
+      logger.warn('Failed to fetch recent prioritization fees, using minimum:', error);
+    }
+
+    const percentile = LEVEL_PERCENTILES[level] ?? LEVEL_PERCENTILES.medium;
+    const observed = fees.length
+      ? fees[Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100))]
+      : 0;
+
+    return Math.min(
+      Math.max(observed, config.minPriorityFeeMicroLamports),
+      config.maxPriorityFeeMicroLamports
+    );
+  }
+
+  async estimateComputeUnits(instructions: TransactionInstruction[], payer: PublicKey): Promise<number> {
+    try {
+      return this.getComputeUnitLimit(await this.simulate(instructions, payer));
+    } catch (error) {
+      logger.warn('Compute unit simulation failed, using default limit:', error);
+      return config.defaultComputeUnitLimit;
+    }
+  }
+
+  // Unsigned simulation with the maximum limit so the measurement is not capped
+  async simulate(instructions: TransactionInstruction[], payer: PublicKey): Promise<SimulatedTransactionResponse> {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...instructions,
+      ],
+    }).compileToV0Message();
+
+    const { value } = await this.connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+    return value;
+  }
+
+  // Measured units plus a margin, or the default limit when the simulation failed
+  getComputeUnitLimit(simulation: SimulatedTransactionResponse): number {
+    if (simulation.err || !simulation.unitsConsumed) {
+      return config.defaultComputeUnitLimit;
+    }
+    return Math.min(Math.ceil(simulation.unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNITS);
+  }
+
+  private getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+    const accounts = new Map<string, PublicKey>();
+    for (const instruction of instructions) {
+      for (const key of instruction.keys) {
+        if (key.isWritable) accounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+    return [...accounts.values()];
+  }
+}
@@ -0,0 +1,295 @@
+import { Connection } from '@solana/web3.js';
+import { config } from '../config/index';
+import { RpcClusterHealth, RpcEndpointHealth, SolanaCluster } from '../models/index';
+import { getClusterInstance, getRpcUrl } from '../utils/cluster';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('RpcPool');
+
+// Recent request outcomes kept per endpoint for its error rate
+const ERROR_WINDOW = 50;
+
+// Outcomes needed before the error rate can mark an endpoint unhealthy
+const MIN_ERROR_SAMPLES = 5;
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+interface RpcEndpoint {
+  url: string;
+  host: string;
+  weight: number;
+  sendOnly: boolean;
+  slot: number | null;
+  slotLag: number | null;
+  latencyMs: number | null;
+  outcomes: boolean[]; // true for errors, newest last
+  requests: number;
+  errors: number;
+  checkFailed: boolean;
+  lastError?: string;
+  lastCheckedAt: number | null;
+}
+
+function createEndpoint(url: string, weight: number, sendOnly: boolean): RpcEndpoint {
+  return {
+    url,
+    host: new URL(url).host,
+    weight,
+    sendOnly,
+    slot: null,
+    slotLag: null,
+    latencyMs: null,
+    outcomes: [],
+    requests: 0,
+    errors: 0,
+    checkFailed: false,
+    lastCheckedAt: null
+  };
+}
+
+// Rate limits and server errors are the endpoint's fault; JSON-RPC errors are the request's
+function isEndpointFailure(response: Response): boolean {
+  return response.status === 429 || response.status >= 500;
+}
+
+/**
+ * Weighted RPC endpoints of one cluster behind a single Connection. Each
+ * request goes to a healthy endpoint picked by weight and latency and fails
+ * over to the others on network errors, rate limits and server errors.
+ * Transactions are also broadcast to the send-only endpoints. Endpoints are
+ * probed with getSlot every config.rpcHealthCheckIntervalMs.
+ */
+export class RpcPool {
+  readonly connection: Connection;
+  private cluster: SolanaCluster;
+  private endpoints: RpcEndpoint[];
+  private sendEndpoints: RpcEndpoint[];
+
+  constructor(
+    cluster: SolanaCluster,
+    endpoints: Array<{ url: string; weight: number }>,
+    sendEndpoints: Array<{ url: string; weight: number }> = []
+  ) {
+    this.cluster = cluster;
+    this.endpoints = endpoints.map(({ url, weight }) => createEndpoint(url, weight, false));
+    this.sendEndpoints = sendEndpoints.map(({ url, weight }) => createEndpoint(url, weight, true));
+    this.connection = new Connection(this.endpoints[0].url, {
+      commitment: 'confirmed',
+      fetch: (input, init) => this.fetch(input, init)
+    });
+
+    if (config.rpcHealthCheckIntervalMs > 0) {
+      setInterval(() => void this.checkHealth(), config.rpcHealthCheckIntervalMs).unref();
+      void this.checkHealth();
+    }
+    logger.info(
+      `🌐 RPC pool for ${cluster}: ${this.endpoints.length} endpoint(s), ${this.sendEndpoints.length} send-only`
+    );
+  }
+
+  // Probes every endpoint and measures each one's slot against the most advanced
+  async checkHealth(): Promise<void> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const startedAt = Date.now();
+        try {
+          const response = await globalThis.fetch(endpoint.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getSlot', params: [{ commitment: 'confirmed' }] }),
+            signal: AbortSignal.timeout(config.rpcRequestTimeoutMs)
+          });
+          const body = (await response.json()) as { result?: number; error?: { message: string } };
+          if (typeof body.result !== 'number') {
+            throw new Error(body.error?.message ?? `HTTP ${response.status}`);
+          }
+          endpoint.slot = body.result;
+          endpoint.checkFailed = false;
+          this.recordLatency(endpoint, Date.now() - startedAt);
+        } catch (error) {
+          endpoint.checkFailed = true;
+          endpoint.lastError = error instanceof Error ? error.message : String(error);
+        }
+        endpoint.lastCheckedAt = Date.now();
+      })
+    );
+
+    const bestSlot = Math.max(...this.endpoints.map((endpoint) => endpoint.slot ?? 0));
+    for (const endpoint of this.endpoints) {
+      endpoint.slotLag = endpoint.slot === null ? null : bestSlot - endpoint.slot;
+      if (!this.isHealthy(endpoint)) {
+        logger.warn(`⚠️ RPC ${endpoint.host} (${this.cluster}) is unhealthy: ${this.describeEndpoint(endpoint)}`);
+      }
+    }
+  }
+
+  getHealth(): RpcClusterHealth {
+    return {
+      cluster: this.cluster,
+      healthy: this.endpoints.some((endpoint) => this.isHealthy(endpoint)),
+      endpoints: [...this.endpoints, ...this.sendEndpoints].map(
+        (endpoint): RpcEndpointHealth => ({
+          host: endpoint.host,
+          weight: endpoint.weight,
+          sendOnly: endpoint.sendOnly,
+          healthy: this.isHealthy(endpoint),
+          slot: endpoint.slot,
+          slotLag: endpoint.slotLag,
+          latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+          errorRate: this.getErrorRate(endpoint),
+          requests: endpoint.requests,
+          errors: endpoint.errors,
+          lastError: endpoint.lastError,
+          lastCheckedAt: endpoint.lastCheckedAt
+        })
+      )
+    };
+  }
+
+  // Connection transport: the request body is replayed on each endpoint in turn
+  private async fetch(_input: unknown, init?: RequestInit): Promise<Response> {
+    const broadcasts = this.isSendTransaction(init?.body) ? this.broadcast(init!) : null;
+
+    try {
+      return await this.fetchWithFailover(init);
+    } catch (error) {
+      // A send-only endpoint that accepted the transaction is as good as the pool's answer
+      const accepted = broadcasts && (await broadcasts).find((response) => response?.ok);
+      if (accepted) return accepted;
+      throw error;
+    }
+  }
+
+  private async fetchWithFailover(init?: RequestInit): Promise<Response> {
+    let lastResponse: Response | null = null;
+    let lastError: unknown;
+
+    for (const endpoint of this.getOrderedEndpoints()) {
+      try {
+        const response = await this.request(endpoint, init);
+        if (!isEndpointFailure(response)) return response;
+        void lastResponse?.body?.cancel();
+        lastResponse = response;
+      } catch (error) {
+        lastError = error;
+      }
+      logger.warn(`🔀 RPC ${endpoint.host} (${this.cluster}) failed, trying the next endpoint`);
+    }
+
+    if (lastResponse) return lastResponse;
+    throw lastError;
+  }
+
+  // Send-only endpoints skip preflight; the pool's own endpoint runs it and reports the logs
+  private broadcast(init: RequestInit): Promise<Array<Response | null>> {
+    const payload = JSON.parse(init.body as string);
+    payload.params[1] = { ...payload.params[1], skipPreflight: true };
+    const body = JSON.stringify(payload);
+
+    return Promise.all(
+      this.sendEndpoints.map((endpoint) => this.request(endpoint, { ...init, body }).catch(() => null))
+    );
+  }
+
+  private async request(endpoint: RpcEndpoint, init?: RequestInit): Promise<Response> {
+    const startedAt = Date.now();
+    try {
+      const response = await globalThis.fetch(endpoint.url, {
+        ...init,
+        signal: AbortSignal.timeout(config.rpcRequestTimeoutMs)
+      });
+      this.recordOutcome(endpoint, isEndpointFailure(response) ? `HTTP ${response.status}` : null);
+      this.recordLatency(endpoint, Date.now() - startedAt);
+      return response;
+    } catch (error) {
+      this.recordOutcome(endpoint, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Healthy endpoints first, the first of them drawn at random by score so
+   * load follows the weights, then the unhealthy ones as a last resort.
+   */
+  private getOrderedEndpoints(): RpcEndpoint[] {
+    const healthy = this.endpoints.filter((endpoint) => this.isHealthy(endpoint));
+    const unhealthy = this.endpoints.filter((endpoint) => !this.isHealthy(endpoint));
+    const byScore = (a: RpcEndpoint, b: RpcEndpoint) => this.getScore(b) - this.getScore(a);
+
+    const total = healthy.reduce((sum, endpoint) => sum + this.getScore(endpoint), 0);
+    let pick = Math.random() * total;
+    const first = healthy.find((endpoint) => (pick -= this.getScore(endpoint)) < 0) ?? healthy[0];
+
+    return [
+      ...(first ? [first] : []),
+      ...healthy.filter((endpoint) => endpoint !== first).sort(byScore),
+      ...unhealthy.sort(byScore)
+    ];
+  }
+
+  // Weight, discounted by latency and recent errors
+  private getScore(endpoint: RpcEndpoint): number {
+    const latencyFactor = 1 / (1 + (endpoint.latencyMs ?? 0) / 250);
+    return endpoint.weight * latencyFactor * (1 - this.getErrorRate(endpoint));
+  }
+
+  // Unprobed endpoints count as healthy until a check or their requests say otherwise
+  private isHealthy(endpoint: RpcEndpoint): boolean {
+    if (endpoint.checkFailed) return false;
+    if (endpoint.slotLag !== null && endpoint.slotLag > config.rpcMaxSlotLag) return false;
+    return endpoint.outcomes.length < MIN_ERROR_SAMPLES || this.getErrorRate(endpoint) <= config.rpcMaxErrorRate;
+  }
+
+  private getErrorRate(endpoint: RpcEndpoint): number {
+    if (endpoint.outcomes.length === 0) return 0;
+    return endpoint.outcomes.filter(Boolean).length / endpoint.outcomes.length;
+  }
+
+  private recordOutcome(endpoint: RpcEndpoint, error: string | null): void {
+    endpoint.requests++;
+    endpoint.outcomes.push(error !== null);
+    if (endpoint.outcomes.length > ERROR_WINDOW) endpoint.outcomes.shift();
+    if (error !== null) {
+      endpoint.errors++;
+      endpoint.lastError = error;
+    }
+  }
+
+  private recordLatency(endpoint: RpcEndpoint, latencyMs: number): void {
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? latencyMs
+        : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+  }
+
+  private isSendTransaction(body: RequestInit['body']): boolean {
+    return this.sendEndpoints.length > 0 && typeof body === 'string' && body.includes('"method":"sendTransaction"');
+  }
+
+  private describeEndpoint(endpoint: RpcEndpoint): string {
+    if (endpoint.checkFailed) return endpoint.lastError ?? 'health check failed';
+    if (endpoint.slotLag !== null && endpoint.slotLag > config.rpcMaxSlotLag) {
+      return `${endpoint.slotLag} slots behind`;
+    }
+    return `${Math.round(this.getErrorRate(endpoint) * 100)}% of recent requests failed`;
+  }
+}
+
+const sharedPools = new Map<SolanaCluster, RpcPool>();
+
+// The deployment's cluster pools RPC_URL with RPC_ENDPOINTS; other clusters use their one URL
+export function getRpcPool(cluster?: string): RpcPool {
+  return getClusterInstance(sharedPools, cluster, (resolved) => {
+    const primary = { url: getRpcUrl(resolved), weight: 1 };
+    if (resolved !== config.cluster) {
+      return new RpcPool(resolved, [primary]);
+    }
+    const listed = config.rpcEndpoints.some((endpoint) => endpoint.url === primary.url);
+    return new RpcPool(
+      resolved,
+      listed ? config.rpcEndpoints : [primary, ...config.rpcEndpoints],
+      config.rpcSendEndpoints
+    );
+  });
+}
@@ -0,0 +1,33 @@
+import { EventEmitter } from 'events';
+import { LaunchSession } from '../models/index';
+
+// In-process notifications of saved launch sessions, for streaming launch progress
+export class SessionEvents {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open progress stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(session: LaunchSession): void {
+    this.emitter.emit(session.id, session);
+  }
+
+  // Returns the unsubscribe function
+  subscribe(sessionId: string, listener: (session: LaunchSession) => void): () => void {
+    this.emitter.on(sessionId, listener);
+    return () => {
+      this.emitter.off(sessionId, listener);
+    };
+  }
+}
+
+let sharedEvents: SessionEvents | null = null;
+
+export function getSessionEvents(): SessionEvents {
+  if (!sharedEvents) {
+    sharedEvents = new SessionEvents();
+  }
+  return sharedEvents;
+}
@@ -0,0 +1,194 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index';
+import { LaunchSession } from '../models/index';
+import { readJsonFile, removeFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SessionStore');
+
+// Storage for launch sessions shared between /prepare and /execute
+export interface SessionStore {
+  get(sessionId: string): Promise<LaunchSession | null>;
+  save(session: LaunchSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  purgeExpired(now?: number): Promise<number>;
+  /**
+   * Compare-and-set: applies changes only if the session is still claimable,
+   * atomically across every process sharing the store. Returns the updated
+   * session, or null when it is missing, not claimable or being claimed.
+   */
+  claim(
+    sessionId: string,
+    isClaimable: (session: LaunchSession) => boolean,
+    changes: Partial<LaunchSession>
+  ): Promise<LaunchSession | null>;
+}
+
+// Claim locks older than this were left by a process that died mid-claim
+const CLAIM_LOCK_STALE_MS = 10000;
+
+function isExpired(session: LaunchSession, now: number): boolean {
+  return session.expiresAt <= now;
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, LaunchSession> = new Map();
+
+  async get(sessionId: string): Promise<LaunchSession | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || isExpired(session, Date.now())) return null;
+    return { ...session };
+  }
+
+  async save(session: LaunchSession): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  // Check and write happen in one tick, so no other claim can interleave
+  async claim(
+    sessionId: string,
+    isClaimable: (session: LaunchSession) => boolean,
+    changes: Partial<LaunchSession>
+  ): Promise<LaunchSession | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || isExpired(session, Date.now()) || !isClaimable(session)) return null;
+
+    const claimed = { ...session, ...changes, updatedAt: Date.now() };
+    this.sessions.set(sessionId, claimed);
+    return { ...claimed };
+  }
+
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    let purged = 0;
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (isExpired(session, now)) {
+        this.sessions.delete(sessionId);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+// One JSON document per session, so every process sharing the data dir sees it
+export class FileSessionStore implements SessionStore {
+  constructor(private directory: string) {}
+
+  private filePath(sessionId: string): string {
+    if (!/^[A-Za-z0-9-]+$/.test(sessionId)) {
+      throw new Error('Invalid session ID');
+    }
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+
+  async get(sessionId: string): Promise<LaunchSession | null> {
+    const session = await readJsonFile<LaunchSession>(this.filePath(sessionId));
+    if (!session || isExpired(session, Date.now())) return null;
+    return session;
+  }
+
+  async save(session: LaunchSession): Promise<void> {
+    await writeJsonFileAtomic(this.filePath(session.id), session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await removeFile(this.filePath(sessionId));
+  }
+
+  // Holds an exclusively created lock file while checking and writing the session
+  async claim(
+    sessionId: string,
+    isClaimable: (session: LaunchSession) => boolean,
+    changes: Partial<LaunchSession>
+  ): Promise<LaunchSession | null> {
+    const lockPath = `${this.filePath(sessionId)}.lock`;
+    await fs.mkdir(this.directory, { recursive: true });
+
+    let lock: fs.FileHandle;
+    try {
+      lock = await fs.open(lockPath, 'wx');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > CLAIM_LOCK_STALE_MS) {
+        logger.warn(`Removing stale claim lock of session ${sessionId}`);
+        await removeFile(lockPath);
+      }
+      return null;
+    }
+
+    try {
+      const session = await this.get(sessionId);
+      if (!session || !isClaimable(session)) return null;
+
+      const claimed = { ...session, ...changes, updatedAt: Date.now() };
+      await this.save(claimed);
+      return claimed;
+    } finally {
+      await lock.close();
+      await removeFile(lockPath);
+    }
+  }
+
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    let purged = 0;
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      const filePath = path.join(this.directory, file);
+      try {
+        const session = await readJsonFile<LaunchSession>(filePath);
+        if (!session || isExpired(session, now)) {
+          await removeFile(filePath);
+          purged++;
+        }
+      } catch (error) {
+        logger.warn(`Skipping unreadable session file ${file}:`, error);
+      }
+    }
+    return purged;
+  }
+}
+
+export function createSessionStore(): SessionStore {
+  if (config.sessionStore === 'memory') {
+    return new InMemorySessionStore();
+  }
+  return new FileSessionStore(path.join(config.dataDir, 'sessions'));
+}
+
+let sharedStore: SessionStore | null = null;
+
+// Process-wide store with a single cleanup timer
+export function getSessionStore(): SessionStore {
+  if (sharedStore) return sharedStore;
+
+  const store = createSessionStore();
+  sharedStore = store;
+  logger.info(`🗄️ Session store: ${config.sessionStore} (TTL ${config.sessionTtlMs / 1000}s)`);
+
+  // Clean expired sessions every 10 minutes
+  setInterval(async () => {
+    try {
+      const purged = await store.purgeExpired();
+      if (purged > 0) {
+        logger.info(`🧹 Cleaned ${purged} expired session(s)`);
+      }
+    } catch (error) {
+      logger.error('Failed to clean expired sessions:', error);
+    }
+  }, 10 * 60 * 1000).unref();
+
+  return store;
+}
@@ -1,21 +1,55 @@
-import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL, Transaction, SystemProgram } from '@solana/web3.js';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  LAMPORTS_PER_SOL,
+  SystemProgram,
+  SystemInstruction,
+  TransactionInstruction,
+  VersionedMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
 import { 
-  createFungible,
+  createV1,
   mplTokenMetadata,
-  findMetadataPda
+  findMetadataPda,
+  safeFetchMetadata,
+  TokenStandard
 } from '@metaplex-foundation/mpl-token-metadata';
 import {
   getAssociatedTokenAddress,
-  createAssociatedTokenAccountInstruction,
-  transfer,
-  setAuthority,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
   AuthorityType,
-  mintTo,
+  getAccount,
+  getMint,
   createInitializeMintInstruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+  createThawAccountInstruction,
+  unpackAccount,
+  unpackMint,
+  Mint,
   TOKEN_PROGRAM_ID
 } from '@solana/spl-token';
+import { v4 as uuidv4 } from 'uuid';
 import { WalletService } from './WalletService';
+import { SessionStore, getSessionStore } from './SessionStore';
+import { PriorityFeeService } from './PriorityFeeService';
+import { getRpcPool } from './RpcPool';
+import { TransactionSender } from './TransactionSender';
+import { VanityService, getVanityService } from './VanityService';
+import { BondingCurveService } from './BondingCurveService';
+import { LiquidityService, getLiquidityLpAmounts } from './LiquidityService';
+import {
+  LaunchLedger,
+  collectWalletLaunches,
+  getLaunchLedger,
+  summarizeLaunches
+} from './LaunchLedger';
 import { IpfsService, MetadataJson } from './IpfsService';
+import { getWebhookService } from './WebhookService';
+import { getSessionEvents } from './SessionEvents';
 import { config } from '../config/index';
 import { 
   LaunchTokenRequest, 
@@ -24,64 +58,230 @@ import {
   TokenMetadata,
   PrepareTokenRequest,
   PrepareTokenResponse,
-  ExecuteTokenRequest
+  ExecuteTokenRequest,
+  LaunchSession,
+  LaunchSessionStatusResponse,
+  LaunchProgressEvent,
+  LaunchStep,
+  LaunchRecord,
+  LaunchStatisticsResponse,
+  PriorityFeeInfo,
+  WalletLaunchesResponse,
+  WalletLaunchQuery,
+  AllocationInfo,
+  LiquidityInfo,
+  LaunchDryRunResponse,
+  LaunchEstimateResponse,
+  LaunchPayer,
+  PayerCostEstimate,
+  RentAccountType,
+  RentEstimate,
+  SolanaCluster,
+  TransactionSimulation
 } from '../models/index';
 import { createLogger } from '../utils/logger';
+import { getClusterInstance } from '../utils/cluster';
+import { getExplorerUrl } from '../utils/explorer';
+import { decryptSecret, encryptSecret } from '../utils/crypto';
+import {
+  buildTransaction,
+  deserializeTransaction,
+  getTransactionInstructions,
+  getTransactionSignature,
+  serializeTransactionMessage,
+  serializeUnsignedTransaction,
+  verifySignedTransaction
+} from '../utils/transaction';
+import { ApiError } from '../utils/errors';
+import { ResolvedAllocation, describeAllocation, resolveAllocations } from '../utils/allocation';
+import { validateVanityOptions } from '../utils/vanity';
+import {
+  VestingScheduleEntry,
+  buildVestingSchedule,
+  createVestingCreateInstruction,
+  createVestingInitInstruction,
+  decodeVestingAccount,
+  getVestingAccountSize,
+  getVestingAddresses
+} from '../utils/vestingProgram';
+import {
+  createInitializeExtensionInstructions,
+  describeExtensions,
+  getMintSpace,
+  getTokenAccountSpace,
+  getTokenProgramId,
+  getTokenStandardName,
+  requiresFreezeAuthority,
+  validateTokenExtensions
+} from '../utils/tokenProgram';
+import {
+  formatTokenAmount,
+  parseTokenAmount,
+  toRawTokenAmount,
+  MAX_TOKEN_DECIMALS,
+  U64_MAX
+} from '../utils/validation';
 import { 
   Umi,
-  generateSigner,
   createSignerFromKeypair,
   signerIdentity,
   percentAmount,
-  publicKey
+  publicKey,
+  createNoopSigner
 } from '@metaplex-foundation/umi';
 import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
+import {
+  fromWeb3JsPublicKey,
+  toWeb3JsInstruction
+} from '@metaplex-foundation/umi-web3js-adapters';
 
 const logger = createLogger('TokenService');
 
-// Session storage for token creation process
-interface TokenSession {
+// Bounds the history walk used to find a mint's launch transaction
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 20;
+
+// Launch timestamps never change once found, so each service keeps the latest lookups
+const LAUNCH_TIMESTAMP_CACHE_SIZE = 1000;
+
+// Recipients (ATA + mint) per master transaction when minting allocations
+const ALLOCATIONS_PER_TRANSACTION = 4;
+
+// How often progress streams re-read their session, for launches run by another process
+const SESSION_POLL_INTERVAL_MS = 2000;
+
+// Resolved supply in base units and decimals for a launch
+interface TokenAmounts {
+  decimals: number;
+  supply: bigint;
+}
+
+// Ledger record before completion time and duration are stamped
+type LaunchRecordDraft = Omit<LaunchRecord, 'id' | 'completedAt' | 'durationMs'>;
+
+function isFinishedSession(status: LaunchSessionStatusResponse): boolean {
+  return status.status === 'completed' || status.status === 'failed';
+}
+
+function hasVestedAllocations(request: PrepareTokenRequest): boolean {
+  return !!request.allocations?.some((allocation) => allocation.vesting);
+}
+
+function isPlainObject<T>(value: T | null | undefined): value is T {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Data URI fallbacks can be megabytes, so only linked images go into the ledger
+function getLedgerImage(imageUrl: string): string | undefined {
+  return imageUrl && !imageUrl.startsWith('data:') ? imageUrl : undefined;
+}
+
+// Metaplex metadata account size (MAX_METADATA_LEN), the most CreateV1 allocates
+const METADATA_ACCOUNT_SPACE = 679;
+
+// Base fee per transaction signature
+const LAMPORTS_PER_SIGNATURE = 5_000;
+
+// Same length as the gateway URIs IpfsService returns, so planned transactions keep their size
+const DRY_RUN_METADATA_URI = `https://gateway.pinata.cloud/ipfs/${'Qm'.padEnd(46, 'x')}`;
+
+const EMPTY_PAYER_COST: PayerCostEstimate = {
+  transactions: 0,
+  rentLamports: 0,
+  networkFeeLamports: 0,
+  priorityFeeLamports: 0,
+  platformFeeLamports: 0,
+  totalLamports: 0
+};
+
+interface PlannedAccount {
+  account: RentAccountType;
+  space: number;
+}
+
+// A transaction a launch sends, before compute budget instructions
+interface PlannedTransaction {
+  step: LaunchStep;
+  payer: LaunchPayer;
+  instructions: TransactionInstruction[];
+  signers: number; // signatures besides the fee payer
+  accounts: PlannedAccount[]; // accounts it opens, for rent
+}
+
+// Values shared by every step of a staged launch
+/**
+ * One attempt of a queued launch. Its number goes into the ledger record, and
+ * a failure is only recorded once isFinal says the job will not retry it.
+ */
+export interface LaunchAttempt {
+  number: number;
+  isFinal: (error: unknown) => boolean;
+}
+
+interface LaunchContext {
   mintKeypair: Keypair;
-  request: PrepareTokenRequest;
-  metadataUri: string;
-  createdAt: number;
+  amounts: TokenAmounts;
+  tokenProgramId: PublicKey;
+  userWalletPubkey: PublicKey;
+  userTokenAccount: PublicKey;
+  allocations: ResolvedAllocation[];
+  signedTransaction: string;
 }
 
-// Simple token mint - no pool, no DBC
+// Token mint, plain or straight into a Meteora DBC pool (launchMode 'bonding-curve')
 export class TokenService {
+  private cluster: SolanaCluster;
   private connection: Connection;
   private walletService: WalletService;
   private ipfsService: IpfsService;
   private umi: Umi | null = null;
-  private tokenSessions: Map<string, TokenSession> = new Map();
+  private sessionStore: SessionStore;
+  private priorityFeeService: PriorityFeeService;
+  private transactionSender: TransactionSender;
+  private launchLedger: LaunchLedger;
+  private vanityService: VanityService;
+  private bondingCurveService: BondingCurveService;
+  private liquidityService: LiquidityService;
+  private launchTimestamps: Map<string, number | null> = new Map();
 
-  constructor() {
-    this.connection = new Connection(config.rpcUrl, 'confirmed');
+  constructor(
+    cluster: SolanaCluster = config.cluster,
+    sessionStore: SessionStore = getSessionStore(),
+    launchLedger: LaunchLedger = getLaunchLedger()
+  ) {
+    this.cluster = cluster;
+    this.connection = getRpcPool(cluster).connection;
     this.walletService = new WalletService();
     this.ipfsService = new IpfsService();
+    this.sessionStore = sessionStore;
+    this.launchLedger = launchLedger;
+    this.priorityFeeService = new PriorityFeeService(this.connection);
+    this.transactionSender = new TransactionSender(this.connection);
+    this.vanityService = getVanityService();
+    this.bondingCurveService = new BondingCurveService(this.connection);
+    this.liquidityService = new LiquidityService(this.connection, cluster);
     
-    // Clean old sessions every hour
-    setInterval(() => {
-      this.cleanOldSessions();
-    }, 60 * 60 * 1000);
-    
-    logger.info('🎯 Simple TokenService initialized (no DBC, no pools)');
+    logger.info(`🎯 TokenService initialized (${cluster})`);
   }
 
-  private cleanOldSessions() {
-    const now = Date.now();
-    const oneHour = 60 * 60 * 1000;
-    
-    for (const [sessionId, session] of this.tokenSessions.entries()) {
-      if (now - session.createdAt > oneHour) {
-        this.tokenSessions.delete(sessionId);
-        logger.info(`🧹 Cleaned old session: ${sessionId}`);
-      }
-    }
+  private async updateSession(
+    session: LaunchSession,
+    changes: Partial<LaunchSession>
+  ): Promise<LaunchSession> {
+    const updated = { ...session, ...changes, updatedAt: Date.now() };
+    await this.sessionStore.save(updated);
+    getSessionEvents().publish(updated);
+    return updated;
   }
 
-  private generateSessionId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+  // Sessions keep running on the cluster they were prepared on
+  private getSessionService(session: LaunchSession): TokenService {
+    const cluster = session.request.cluster ?? config.cluster;
+    return cluster === this.cluster ? this : getTokenService(cluster);
+  }
+
+  private getMintKeypair(session: LaunchSession): Keypair {
+    return Keypair.fromSecretKey(decryptSecret(session.encryptedMintSecret));
   }
 
   private initializeUmi(): void {
@@ -89,7 +289,7 @@ export class TokenService {
     
     logger.info('🔧 Initializing UMI...');
     
-    this.umi = createUmi(config.rpcUrl).use(mplTokenMetadata());
+    this.umi = createUmi(this.connection).use(mplTokenMetadata());
     
     try {
       const masterKeypair = this.walletService.getMasterKeypair();
@@ -106,7 +306,28 @@ export class TokenService {
     }
   }
 
-  async launchToken(request: LaunchTokenRequest): Promise<LaunchTokenResponse> {
+  /**
+   * Master-paid launch without a user signature. A retry passes the mint of
+   * the earlier attempt and, like runLaunchStep, checks on-chain state before
+   * each transaction, so it finishes that launch instead of creating a second token.
+   */
+  async launchToken(
+    request: LaunchTokenRequest,
+    retryMint?: Keypair,
+    attempt?: LaunchAttempt
+  ): Promise<LaunchTokenResponse> {
+    const record: LaunchRecordDraft = {
+      operation: 'launch',
+      wallet: request.userWallet,
+      name: request.name,
+      symbol: request.symbol,
+      cluster: this.cluster,
+      attempt: attempt?.number,
+      startedAt: Date.now(),
+      signatures: [],
+      feeLamports: 0, // covered by the master wallet, nothing is charged
+      outcome: 'failure'
+    };
     try {
       logger.info('🚀 Starting simple token mint process');
       logger.info(`Token: ${request.name} (${request.symbol})`);
@@ -114,177 +335,143 @@ export class TokenService {
       
       this.initializeUmi();
       this.validateTokenRequest(request);
+      const amounts = this.resolveTokenAmounts(request);
       
-      // Calculate and charge fee from master wallet (0.1 SOL)
-      const feeAmount = 0.1 * LAMPORTS_PER_SOL; // 0.1 SOL fee
-      logger.info(`💰 Fee: ${feeAmount / LAMPORTS_PER_SOL} SOL will be deducted from master wallet`);
+      // Legacy launches have no user signature, so no launch fee is charged
+      logger.info('💰 No launch fee charged, the master wallet pays for the launch');
 
       // 1. Generate mint
-      const mint = generateSigner(this.umi!);
-      logger.info(`📍 Mint address: ${mint.publicKey}`);
-      
-      // 2. Handle image upload
-      let imageUrl = request.imageUrl || '';
-      if (request.imageUpload && !imageUrl) {
-        try {
-          logger.info('📷 Uploading image to IPFS...');
-          const imageBuffer = Buffer.from(request.imageUpload, 'base64');
-          imageUrl = await this.ipfsService.uploadImage(imageBuffer, `${request.symbol}_logo.png`);
-          logger.info(`✅ Image uploaded: ${imageUrl}`);
-        } catch (error) {
-          logger.error('❌ Image upload failed:', error);
-          imageUrl = '';
-        }
-      }
+      const mintKeypair = retryMint ?? Keypair.generate();
+      const mintPubkey = mintKeypair.publicKey;
+      const userWalletPubkey = new PublicKey(request.userWallet);
+      const masterPubkey = this.walletService.getMasterKeypair().publicKey;
+      logger.info(`📍 Mint address: ${mintPubkey.toBase58()}`);
+      record.mintAddress = mintPubkey.toBase58();
 
-      // 3. Create metadata
-      const metadata: MetadataJson = {
-        name: request.name,
-        symbol: request.symbol,
-        description: request.description || `${request.name} - Simple immutable token`,
-        image: imageUrl,
-        external_url: request.website || '',
-        attributes: [
-          { trait_type: 'Platform', value: 'Launchium' },
-          { trait_type: 'Standard', value: 'SPL Token' },
-          { trait_type: 'Decimals', value: config.defaultDecimals },
-          { trait_type: 'Supply', value: '1,000,000,000' },
-          { trait_type: 'Immutable', value: 'true' }
-        ]
-      };
+      // 2-3. Upload image and metadata, then create the token with immutable metadata
+      // (master pays, mint keypair is the authority); one transaction, so an existing mint has both
+      let createTokenSignature: string;
+      if (retryMint && (await this.connection.getAccountInfo(mintPubkey))) {
+        // The oldest signature of a mint this new is the one that created it
+        const signatures = await this.connection.getSignaturesForAddress(mintPubkey, {}, 'confirmed');
+        if (signatures.length === 0) {
+          throw new Error(`Mint ${mintPubkey.toBase58()} exists but its creation is not visible yet`);
+        }
+        createTokenSignature = signatures[signatures.length - 1].signature;
+        logger.info(`↩️ Token already created: ${createTokenSignature}`);
+      } else {
+        const { metadataUri, imageUrl } = await this.uploadTokenMetadata(request, amounts);
+        record.metadataUri = metadataUri;
+        record.image = getLedgerImage(imageUrl);
 
-      if (request.website) {
-        metadata.attributes?.push({ trait_type: 'Website', value: request.website });
-      }
-      if (request.twitter) {
-        metadata.attributes?.push({ trait_type: 'Twitter', value: request.twitter });
-      }
-      if (request.telegram) {
-        metadata.attributes?.push({ trait_type: 'Telegram', value: request.telegram });
+        logger.info('🔨 Creating immutable token...');
+        const mintSpace = getMintSpace();
+        const mintRent = await this.connection.getMinimumBalanceForRentExemption(mintSpace);
+        createTokenSignature = await this.sendMasterTransaction(
+          [
+            SystemProgram.createAccount({
+              fromPubkey: masterPubkey,
+              newAccountPubkey: mintPubkey,
+              lamports: mintRent,
+              space: mintSpace,
+              programId: TOKEN_PROGRAM_ID
+            }),
+            createInitializeMintInstruction(mintPubkey, amounts.decimals, mintPubkey, mintPubkey),
+            ...this.createMetadataInstructions(
+              { ...request, mutableMetadata: false },
+              mintPubkey,
+              metadataUri,
+              masterPubkey
+            )
+          ],
+          [mintKeypair]
+        );
+        logger.info(`✅ Token created: ${createTokenSignature}`);
       }
-
-      const metadataUri = await this.ipfsService.uploadJson(metadata);
-      logger.info(`📄 Metadata uploaded: ${metadataUri}`);
-
-      // 4. Create immutable token
-      logger.info('🔨 Creating immutable token...');
-      const createTokenTx = await createFungible(this.umi!, {
-        mint,
-        name: request.name,
-        symbol: request.symbol,
-        uri: metadataUri,
-        sellerFeeBasisPoints: percentAmount(0),
-        decimals: config.defaultDecimals,
-        isMutable: false, // Immutable metadata
-        splTokenProgram: publicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
-      }).sendAndConfirm(this.umi!);
-
-      logger.info('✅ Token created, waiting for confirmation...');
-
-      // Wait a bit for blockchain confirmation
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Convert UMI mint to web3.js types
-      const mintPubkey = new PublicKey(mint.publicKey.toString());
-      const userWalletPubkey = new PublicKey(request.userWallet);
+      record.signatures.push(createTokenSignature);
       
-      // 5. Get user's associated token account
+      // 4. Get user's associated token account
       const userTokenAccount = await getAssociatedTokenAddress(mintPubkey, userWalletPubkey);
       logger.info(`📝 User token account: ${userTokenAccount.toBase58()}`);
 
-      // 6. Check if user's ATA exists, create if not
-      const userAccountInfo = await this.connection.getAccountInfo(userTokenAccount);
-      if (!userAccountInfo) {
-        logger.info('🔧 Creating user token account...');
-        const createUserATAInstruction = createAssociatedTokenAccountInstruction(
-          this.walletService.getMasterKeypair().publicKey, // payer (master pays)
-          userTokenAccount,
-          userWalletPubkey, // owner
-          mintPubkey
+      // 5-7. Create the user's ATA, mint the full supply to it and revoke ALL authorities;
+      // one transaction, so a revoked mint authority means the supply was minted
+      const mintInfo = await getMint(this.connection, mintPubkey, 'confirmed');
+      if (!mintInfo.mintAuthority) {
+        logger.info('↩️ Supply already minted and authorities revoked');
+      } else {
+        logger.info('💎 Minting tokens to user and revoking authorities...');
+        const mintSignature = await this.sendMasterTransaction(
+          [
+            createAssociatedTokenAccountIdempotentInstruction(
+              masterPubkey, // payer (master pays)
+              userTokenAccount,
+              userWalletPubkey, // owner
+              mintPubkey
+            ),
+            createMintToInstruction(mintPubkey, userTokenAccount, mintPubkey, amounts.supply),
+            createSetAuthorityInstruction(mintPubkey, mintPubkey, AuthorityType.MintTokens, null),
+            createSetAuthorityInstruction(mintPubkey, mintPubkey, AuthorityType.FreezeAccount, null)
+          ],
+          [mintKeypair]
         );
-
-        const ataTransaction = new Transaction().add(createUserATAInstruction);
-        const ataSignature = await this.connection.sendTransaction(ataTransaction, [this.walletService.getMasterKeypair()]);
-        
-        // Wait for ATA creation confirmation
-        await this.connection.confirmTransaction(ataSignature, 'confirmed');
-        logger.info('✅ User token account created and confirmed');
+        logger.info(`✅ Minted ${formatTokenAmount(amounts.supply, amounts.decimals)} tokens to user`);
+        record.signatures.push(mintSignature);
       }
 
-      // 7. Mint tokens directly to user (1 billion tokens)
-      logger.info('💎 Minting tokens to user...');
-      const mintAmount = Number(config.defaultSupply);
-      
-      try {
-        const mintSignature = await mintTo(
-          this.connection,
-          this.walletService.getMasterKeypair(), // payer
-          mintPubkey, // mint
-          userTokenAccount, // destination
-          this.walletService.getMasterKeypair(), // mint authority
-          mintAmount // amount
-        );
-
-        // Wait for mint confirmation
-        await this.connection.confirmTransaction(mintSignature, 'confirmed');
-        logger.info(`✅ Minted ${(mintAmount / (10 ** config.defaultDecimals)).toLocaleString()} tokens to user`);
-
-      } catch (mintError) {
-        logger.error('❌ Mint failed:', mintError);
-        throw new Error(`Failed to mint tokens: ${mintError instanceof Error ? mintError.message : 'Unknown mint error'}`);
-      }
-
-      // 8. Revoke ALL authorities (immutable token)
-      logger.info('🔒 Revoking mint authority...');
-      await setAuthority(
-        this.connection,
-        this.walletService.getMasterKeypair(),
-        mintPubkey,
-        this.walletService.getMasterKeypair(),
-        AuthorityType.MintTokens,
-        null // Revoke = no more minting
-      );
-
-      logger.info('🔒 Revoking freeze authority...');
-      await setAuthority(
-        this.connection,
-        this.walletService.getMasterKeypair(),
-        mintPubkey,
-        this.walletService.getMasterKeypair(),
-        AuthorityType.FreezeAccount,
-        null // Revoke = no freezing
-      );
-
       logger.info('✅ All authorities revoked - token is now immutable');
 
-      // 9. Prepare response
-      const metadataPda = findMetadataPda(this.umi!, { mint: mint.publicKey });
+      // 8. Prepare response
+      const metadataPda = findMetadataPda(this.umi!, { mint: fromWeb3JsPublicKey(mintPubkey) });
       
       const response: LaunchTokenResponse = {
         success: true,
-        mintAddress: mint.publicKey.toString(),
+        mintAddress: mintPubkey.toBase58(),
         metadataAddress: metadataPda[0].toString(),
         userTokenAccount: userTokenAccount.toBase58(),
-        totalSupply: config.defaultSupply.toString(),
-        userBalance: config.defaultSupply.toString(), // All tokens go to user
-        transactionSignature: Buffer.from(createTokenTx.signature).toString('base64'),
-        explorerUrl: `https://solana.fm/tx/${Buffer.from(createTokenTx.signature).toString('base64')}?cluster=mainnet-beta`,
-        fee: (feeAmount / LAMPORTS_PER_SOL).toString() // Fee deducted from master wallet
+        decimals: amounts.decimals,
+        totalSupply: amounts.supply.toString(),
+        userBalance: amounts.supply.toString(), // All tokens go to user
+        transactionSignature: createTokenSignature,
+        cluster: this.cluster,
+        explorerUrl: getExplorerUrl('tx', createTokenSignature, this.cluster),
+        tokenExplorerUrl: getExplorerUrl('token', mintPubkey.toBase58(), this.cluster),
+        tokenAccountExplorerUrl: getExplorerUrl('address', userTokenAccount.toBase58(), this.cluster),
+        fee: '0' // Nothing is charged, the master wallet pays
       };
 
       logger.info('🎉 Simple token mint completed successfully!');
       logger.info(`Token Address: ${response.mintAddress}`);
-      logger.info(`User receives: ${(Number(config.defaultSupply) / (10 ** config.defaultDecimals)).toLocaleString()} tokens`);
+      logger.info(`User receives: ${formatTokenAmount(amounts.supply, amounts.decimals)} tokens`);
 
+      await this.recordLaunch({ ...record, outcome: 'success' });
       return response;
 
     } catch (error) {
       logger.error('❌ Token mint failed:', error);
+      if (!attempt || attempt.isFinal(error)) {
+        await this.recordLaunch(record, error);
+      }
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new Error(`Token mint failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   async prepareTokenTransaction(request: PrepareTokenRequest): Promise<PrepareTokenResponse> {
+    const record: LaunchRecordDraft = {
+      operation: 'prepare',
+      wallet: request.userWallet,
+      name: request.name,
+      symbol: request.symbol,
+      executionMode: request.executionMode || 'staged',
+      cluster: this.cluster,
+      startedAt: Date.now(),
+      signatures: [],
+      feeLamports: 0,
+      outcome: 'failure'
+    };
     try {
       logger.info('🚀 Preparing token transaction');
       logger.info(`Token: ${request.name} (${request.symbol})`);
@@ -293,267 +480,1044 @@ export class TokenService {
       this.initializeUmi();
       this.validateTokenRequest(request);
       
-      // Generate session ID and mint keypair
-      const sessionId = this.generateSessionId();
-      const mintKeypair = Keypair.generate();
+      const launchMode = request.launchMode || 'simple';
+      request = await this.resolveLaunchRequest(request);
+      record.executionMode = request.executionMode || 'staged';
+      const amounts = this.resolveTokenAmounts(request);
+      
+      // Generate session ID and mint keypair (ground first, before anything is uploaded)
+      const sessionId = uuidv4();
+      const vanity = request.vanity ? await this.vanityService.getKeypair(request.vanity) : null;
+      const mintKeypair = vanity ? vanity.keypair : Keypair.generate();
       
       logger.info(`📍 Session ID: ${sessionId}`);
       logger.info(`📍 Mint address: ${mintKeypair.publicKey.toBase58()}`);
+      record.sessionId = sessionId;
+      record.mintAddress = mintKeypair.publicKey.toBase58();
       
-      // Handle image upload
-      let imageUrl = request.imageUrl || '';
-      if (request.imageUpload && !imageUrl) {
-        try {
-          logger.info('📷 Uploading image to IPFS...');
-          const imageBuffer = Buffer.from(request.imageUpload, 'base64');
-          imageUrl = await this.ipfsService.uploadImage(imageBuffer, `${request.symbol}_logo.png`);
-          logger.info(`✅ Image uploaded: ${imageUrl}`);
-        } catch (error) {
-          logger.error('❌ Image upload failed:', error);
-          imageUrl = '';
-        }
-      }
-
-      // Create metadata
-      const metadata: MetadataJson = {
-        name: request.name,
-        symbol: request.symbol,
-        description: request.description || `${request.name} - Simple immutable token`,
-        image: imageUrl,
-        external_url: request.website || '',
-        attributes: [
-          { trait_type: 'Platform', value: 'Launchium' },
-          { trait_type: 'Standard', value: 'SPL Token' },
-          { trait_type: 'Decimals', value: config.defaultDecimals },
-          { trait_type: 'Supply', value: '1,000,000,000' },
-          { trait_type: 'Immutable', value: 'true' }
-        ]
-      };
-
-      if (request.website) {
-        metadata.attributes?.push({ trait_type: 'Website', value: request.website });
-      }
-      if (request.twitter) {
-        metadata.attributes?.push({ trait_type: 'Twitter', value: request.twitter });
-      }
-      if (request.telegram) {
-        metadata.attributes?.push({ trait_type: 'Telegram', value: request.telegram });
-      }
-
-      const metadataUri = await this.ipfsService.uploadJson(metadata);
-      logger.info(`📄 Metadata uploaded: ${metadataUri}`);
+      const { metadataUri, imageUrl } = await this.uploadTokenMetadata(request, amounts);
+      record.metadataUri = metadataUri;
+      record.image = getLedgerImage(imageUrl);
 
       // Create transaction for user to sign
       const userWalletPubkey = new PublicKey(request.userWallet);
-      const userTokenAccount = await getAssociatedTokenAddress(mintKeypair.publicKey, userWalletPubkey);
-      
-      const transaction = new Transaction();
+      const executionMode = request.executionMode || 'staged';
+      const transactionVersion = request.transactionVersion ?? 'legacy';
+      const { instructions, poolAddress } = await this.createUserInstructions(
+        request,
+        mintKeypair.publicKey,
+        metadataUri,
+        amounts
+      );
       
-      // Add create ATA instruction (user pays for their own ATA)
-      const createATAInstruction = createAssociatedTokenAccountInstruction(
-        userWalletPubkey, // payer (user pays)
-        userTokenAccount, // ata
-        userWalletPubkey, // owner
-        mintKeypair.publicKey // mint
+      // Compute budget first, priced from recent prioritization fees
+      const priorityFee = await this.priorityFeeService.getPriorityFee(
+        instructions,
+        userWalletPubkey,
+        request.priorityLevel,
+        request.priorityFeeMicroLamports
+      );
+      logger.info(
+        `⚡ Priority fee: ${priorityFee.microLamports} µLamports/CU (${priorityFee.level}), limit ${priorityFee.computeUnitLimit} CU`
       );
-      transaction.add(createATAInstruction);
       
       // Get recent blockhash
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = userWalletPubkey;
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+      const transaction = buildTransaction(
+        [...this.priorityFeeService.createComputeBudgetInstructions(priorityFee), ...instructions],
+        userWalletPubkey,
+        blockhash,
+        transactionVersion
+      );
+      
+      // In atomic mode the mint keypair signs now; the user adds the fee payer signature
+      if (executionMode === 'atomic') {
+        if (transaction instanceof VersionedTransaction) {
+          transaction.sign([mintKeypair]);
+        } else {
+          transaction.partialSign(mintKeypair);
+        }
+      }
       
-      // Partially sign with mint keypair (but user still needs to sign)
-      transaction.partialSign(mintKeypair);
+      // Serialize transaction for frontend
+      let serializedTransaction: string;
+      try {
+        serializedTransaction = serializeUnsignedTransaction(transaction);
+      } catch (serializeError) {
+        if (executionMode === 'atomic') {
+          throw new Error(
+            `Launch does not fit in a single transaction, use the staged mode instead (${serializeError instanceof Error ? serializeError.message : serializeError})`
+          );
+        }
+        throw serializeError;
+      }
       
-      // Store session
-      this.tokenSessions.set(sessionId, {
-        mintKeypair,
-        request,
+      // Store session, keeping the exact message the user is expected to sign
+      const now = Date.now();
+      await this.sessionStore.save({
+        id: sessionId,
+        status: 'prepared',
+        request: { ...request, cluster: this.cluster, imageUpload: undefined, imageUrl: record.image }, // already on IPFS
+        mintAddress: mintKeypair.publicKey.toBase58(),
+        encryptedMintSecret: encryptSecret(mintKeypair.secretKey),
         metadataUri,
-        createdAt: Date.now()
+        preparedMessage: serializeTransactionMessage(transaction).toString('base64'),
+        priorityFee,
+        lastValidBlockHeight,
+        poolAddress: poolAddress?.toBase58(),
+        steps: [],
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: now + config.sessionTtlMs
       });
       
-      // Serialize transaction for frontend
-      const serializedTransaction = transaction.serialize({
-        requireAllSignatures: false,
-        verifySignatures: false
-      }).toString('base64');
-      
-      logger.info('✅ Transaction prepared for user signature');
+      logger.info(`✅ Transaction prepared for user signature (${executionMode})`);
+      await this.recordLaunch({ ...record, outcome: 'success' });
       
       return {
         success: true,
         sessionId,
         mintAddress: mintKeypair.publicKey.toBase58(),
+        cluster: this.cluster,
+        explorerUrl: getExplorerUrl('token', mintKeypair.publicKey.toBase58(), this.cluster),
+        executionMode,
+        transactionVersion,
+        priorityFee,
+        vanity: vanity?.result,
+        launchMode,
+        poolAddress: poolAddress?.toBase58(),
         transaction: serializedTransaction,
         message: `Token ${request.name} (${request.symbol}) hazırlandı. Lütfen wallet'ınızdan onaylayın.`
       };
 
     } catch (error) {
       logger.error('❌ Token preparation failed:', error);
+      await this.recordLaunch(record, error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new Error(`Token preparation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async executeTokenTransaction(request: ExecuteTokenRequest): Promise<LaunchTokenResponse> {
+  // Rent and fees per payer for a launch, without uploading metadata or storing a session
+  async estimateLaunchCost(request: PrepareTokenRequest): Promise<LaunchEstimateResponse> {
+    return (await this.analyzeLaunch(request)).estimate;
+  }
+
+  /**
+   * Simulates every transaction the launch would send, with a random mint and
+   * a placeholder metadata URI (no vanity grinding, IPFS upload or session).
+   * Staged steps after create_mint need the mint on-chain, so their
+   * simulations are expected to fail and do not count against success.
+   */
+  async dryRunLaunch(request: PrepareTokenRequest): Promise<LaunchDryRunResponse> {
+    logger.info(`🧪 Dry run: ${request.name} (${request.symbol})`);
+    const { estimate, simulations } = await this.analyzeLaunch(request);
+
+    return {
+      success: simulations.every((simulation) => simulation.success || simulation.requiresEarlierSteps),
+      dryRun: true,
+      estimate,
+      simulations
+    };
+  }
+
+  async executeTokenTransaction(request: ExecuteTokenRequest, attempt?: LaunchAttempt): Promise<LaunchTokenResponse> {
+    const startedAt = Date.now();
+    let session: LaunchSession | null = null;
+    let claimed = false;
+    let attempted = false;
     try {
       logger.info('🎯 Executing token transaction');
       logger.info(`Session ID: ${request.sessionId}`);
       
       // Get session
-      const session = this.tokenSessions.get(request.sessionId);
+      session = await this.sessionStore.get(request.sessionId);
       if (!session) {
-        throw new Error('Session not found or expired');
+        throw new ApiError('Session not found or expired', 'SESSION_NOT_FOUND', 404);
+      }
+      const sessionService = this.getSessionService(session);
+      if (sessionService !== this) {
+        return sessionService.executeTokenTransaction(request, attempt);
       }
       
-      this.initializeUmi();
-      
-      // Deserialize signed transaction
-      const signedTransaction = Transaction.from(Buffer.from(request.signedTransaction, 'base64'));
-      
-      // Send the user's signed transaction (creates ATA)
-      logger.info('📤 Sending user transaction...');
-      const userTxSignature = await this.connection.sendRawTransaction(signedTransaction.serialize());
-      await this.connection.confirmTransaction(userTxSignature, 'confirmed');
-      logger.info(`✅ User transaction confirmed: ${userTxSignature}`);
-      
-      // Now create token using traditional SPL token approach
-      logger.info('🔨 Creating token mint...');
+      // Retrying a finished launch returns the original result
+      if (session.status === 'completed' && session.result) {
+        logger.info('↩️ Session already completed, returning stored result');
+        return { ...session.result, liquidity: session.liquidity };
+      }
+      if (!this.isSessionResumable(session)) {
+        throw new ApiError(`Session is already ${session.status}`, 'SESSION_IN_PROGRESS', 409);
+      }
+      attempted = true;
       
-      // Create mint account
-      const mintRent = await this.connection.getMinimumBalanceForRentExemption(82);
-      const createMintAccountIx = SystemProgram.createAccount({
-        fromPubkey: this.walletService.getMasterKeypair().publicKey,
-        newAccountPubkey: session.mintKeypair.publicKey,
-        lamports: mintRent,
-        space: 82,
-        programId: TOKEN_PROGRAM_ID
-      });
+      // Nothing is sent unless the user signed exactly what was prepared
+      const userWalletPubkey = new PublicKey(session.request.userWallet);
+      if (!session.steps.some((record) => record.step === 'user_transaction')) {
+        const signedTransaction = verifySignedTransaction(
+          request.signedTransaction,
+          Buffer.from(session.preparedMessage, 'base64'),
+          userWalletPubkey
+        );
+        this.verifyPlatformFee(signedTransaction, userWalletPubkey);
+      }
       
-      // Initialize mint
-      const initializeMintIx = createInitializeMintInstruction(
-        session.mintKeypair.publicKey,
-        config.defaultDecimals,
-        session.mintKeypair.publicKey, // mint authority
-        session.mintKeypair.publicKey, // freeze authority
-        TOKEN_PROGRAM_ID
+      // Another request or process may have claimed the session since it was read
+      const claimedSession = await this.sessionStore.claim(
+        session.id,
+        (stored) => this.isSessionResumable(stored),
+        { status: 'submitted', error: undefined }
       );
+      if (!claimedSession) {
+        throw new ApiError('Session is already being executed', 'SESSION_IN_PROGRESS', 409);
+      }
+      session = claimedSession;
+      claimed = true;
+      getSessionEvents().publish(session);
       
-      // Create mint transaction
-      const mintTransaction = new Transaction().add(createMintAccountIx, initializeMintIx);
-      mintTransaction.feePayer = this.walletService.getMasterKeypair().publicKey;
-      mintTransaction.recentBlockhash = (await this.connection.getLatestBlockhash()).blockhash;
-      
-      // Sign with both master wallet (payer) and mint keypair
-      mintTransaction.sign(this.walletService.getMasterKeypair(), session.mintKeypair);
-      
-      // Send transaction
-      const mintTxSignature = await this.connection.sendRawTransaction(mintTransaction.serialize());
-      await this.connection.confirmTransaction(mintTxSignature, 'confirmed');
-      logger.info(`✅ Mint created: ${session.mintKeypair.publicKey.toBase58()}`);
-      
-      // Skip metadata for now - focus on making token work first
-      logger.info('✅ Token mint created successfully');
-      
-      logger.info('✅ Token created, waiting for confirmation...');
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mint tokens to user
-      const userWalletPubkey = new PublicKey(session.request.userWallet);
-      const userTokenAccount = await getAssociatedTokenAddress(session.mintKeypair.publicKey, userWalletPubkey);
-      const mintAmount = Number(config.defaultSupply);
-      
-      logger.info('💎 Minting tokens to user...');
-      const mintSignature = await mintTo(
-        this.connection,
-        this.walletService.getMasterKeypair(), // payer (master pays gas)
-        session.mintKeypair.publicKey, // mint
-        userTokenAccount, // destination
-        session.mintKeypair, // mint authority (mint keypair has authority)
-        mintAmount // amount
+      this.initializeUmi();
+      const mintKeypair = this.getMintKeypair(session);
+      const amounts = this.resolveTokenAmounts(session.request);
+      const tokenProgramId = getTokenProgramId(session.request.tokenProgram);
+      const userTokenAccount = await getAssociatedTokenAddress(
+        mintKeypair.publicKey,
+        userWalletPubkey,
+        false,
+        tokenProgramId
       );
       
-      await this.connection.confirmTransaction(mintSignature, 'confirmed');
-      logger.info(`✅ Minted ${(mintAmount / (10 ** config.defaultDecimals)).toLocaleString()} tokens to user`);
-      
-      // Revoke authorities
-      logger.info('🔒 Revoking mint authority...');
-      await setAuthority(
-        this.connection,
-        this.walletService.getMasterKeypair(), // payer
-        session.mintKeypair.publicKey, // mint
-        session.mintKeypair, // current authority
-        AuthorityType.MintTokens,
-        null
-      );
+      const context: LaunchContext = {
+        mintKeypair,
+        amounts,
+        tokenProgramId,
+        userWalletPubkey,
+        userTokenAccount,
+        // Bonding curve supply stays in the pool
+        allocations:
+          session.request.launchMode === 'bonding-curve'
+            ? []
+            : this.resolveLaunchAllocations(session.request, amounts),
+        signedTransaction: request.signedTransaction
+      };
       
-      logger.info('🔒 Revoking freeze authority...');
-      await setAuthority(
-        this.connection,
-        this.walletService.getMasterKeypair(), // payer
-        session.mintKeypair.publicKey, // mint
-        session.mintKeypair, // current authority
-        AuthorityType.FreezeAccount,
-        null
-      );
+      session = await this.updateSession(session, { status: 'executing' });
       
-      logger.info('✅ All authorities revoked - token is now immutable');
+      // Run each step once; completed steps are skipped when a launch is retried
+      for (const step of this.getLaunchSteps(session.request)) {
+        if (session.steps.some((record) => record.step === step)) {
+          logger.info(`↩️ Step ${step} already completed, skipping`);
+          continue;
+        }
+        
+        session = await this.updateSession(session, { currentStep: step });
+        const result = await this.runLaunchStep(step, session, context);
+        session = await this.updateSession(session, {
+          steps: [
+            ...session.steps,
+            Array.isArray(result)
+              ? { step, signature: result[result.length - 1], signatures: result, completedAt: Date.now() }
+              : { step, signature: result, completedAt: Date.now() }
+          ]
+        });
+      }
       
       // Prepare response
-      const metadataPda = findMetadataPda(this.umi!, { mint: publicKey(session.mintKeypair.publicKey.toBase58()) });
-      const feeAmount = 0.1 * LAMPORTS_PER_SOL;
+      const metadataPda = findMetadataPda(this.umi!, { mint: publicKey(mintKeypair.publicKey.toBase58()) });
+      const launchStep = session.request.executionMode === 'atomic' ? 'user_transaction' : 'create_mint';
+      const mintTxSignature =
+        session.steps.find((record) => record.step === launchStep)?.signature || '';
+      const feeAmount = this.getSessionFeePaid(session, userWalletPubkey);
+      const userAllocation = context.allocations.find((allocation) =>
+        allocation.wallet.equals(userWalletPubkey)
+      );
       
       const response: LaunchTokenResponse = {
         success: true,
-        mintAddress: session.mintKeypair.publicKey.toBase58(),
+        mintAddress: mintKeypair.publicKey.toBase58(),
         metadataAddress: metadataPda[0].toString(),
         userTokenAccount: userTokenAccount.toBase58(),
-        totalSupply: config.defaultSupply.toString(),
-        userBalance: config.defaultSupply.toString(),
+        decimals: amounts.decimals,
+        totalSupply: amounts.supply.toString(),
+        userBalance: (userAllocation?.amount ?? 0n).toString(),
         transactionSignature: mintTxSignature,
-        explorerUrl: `https://solana.fm/tx/${mintTxSignature}?cluster=mainnet-beta`,
-        fee: (feeAmount / LAMPORTS_PER_SOL).toString()
+        cluster: this.cluster,
+        explorerUrl: getExplorerUrl('tx', mintTxSignature, this.cluster),
+        tokenExplorerUrl: getExplorerUrl('token', mintKeypair.publicKey.toBase58(), this.cluster),
+        tokenAccountExplorerUrl: getExplorerUrl('address', userTokenAccount.toBase58(), this.cluster),
+        fee: (feeAmount / LAMPORTS_PER_SOL).toString(),
+        priorityFee: session.priorityFee,
+        allocations: context.allocations.map((allocation) => {
+          const tokenAccount = getAssociatedTokenAddressSync(
+            mintKeypair.publicKey,
+            allocation.wallet,
+            true,
+            tokenProgramId
+          );
+          const info: AllocationInfo = {
+            wallet: allocation.wallet.toBase58(),
+            label: allocation.label,
+            amount: allocation.amount.toString(),
+            percentage: allocation.percentage,
+            tokenAccount: tokenAccount.toBase58()
+          };
+          if (allocation.vesting) {
+            info.vestingAccount = getVestingAddresses(mintKeypair.publicKey, tokenAccount).vestingAccount.toBase58();
+            info.schedule = this.getVestingSchedule(allocation, session).map((release) => ({
+              releaseTime: Number(release.releaseTime),
+              amount: release.amount.toString()
+            }));
+          }
+          return info;
+        }),
+        poolAddress: session.poolAddress
       };
       
-      // Clean up session
-      this.tokenSessions.delete(request.sessionId);
+      // The launch stands even if the pool transaction cannot be built now; refresh retries it
+      if (session.request.liquidity) {
+        try {
+          response.liquidity = await this.buildLiquidity(session);
+        } catch (error) {
+          logger.error('❌ Failed to build liquidity pool transaction:', error);
+        }
+      }
+      
+      session = await this.updateSession(session, {
+        status: 'completed',
+        currentStep: undefined,
+        result: response,
+        liquidity: response.liquidity
+      });
       
       logger.info('🎉 Token creation completed successfully!');
       logger.info(`Token Address: ${response.mintAddress}`);
-      logger.info(`User receives: ${(Number(config.defaultSupply) / (10 ** config.defaultDecimals)).toLocaleString()} tokens`);
+      logger.info(`User receives: ${formatTokenAmount(amounts.supply, amounts.decimals)} tokens`);
       
+      await this.recordLaunch({
+        ...this.getSessionLaunchRecord(session, startedAt, attempt),
+        feeLamports: feeAmount,
+        outcome: 'success'
+      });
       return response;
       
     } catch (error) {
       logger.error('❌ Token execution failed:', error);
+      if (session && claimed) {
+        await this.updateSession(session, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }).catch((storeError) => logger.error('Failed to record session failure:', storeError));
+      }
+      if (session && attempted && (!attempt || attempt.isFinal(error))) {
+        await this.recordLaunch(this.getSessionLaunchRecord(session, startedAt, attempt), error);
+      }
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new Error(`Token execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  // Swaps a base64 imageUpload for its IPFS URL, so queued requests stay small
+  async uploadRequestImage(request: LaunchTokenRequest): Promise<LaunchTokenRequest> {
+    if (!request.imageUpload || request.imageUrl) {
+      return { ...request, imageUpload: undefined };
+    }
+    try {
+      logger.info('📷 Uploading image to IPFS...');
+      const imageUrl = await this.ipfsService.uploadImage(
+        Buffer.from(request.imageUpload, 'base64'),
+        `${request.symbol}_logo.png`
+      );
+      logger.info(`✅ Image uploaded: ${imageUrl}`);
+      return { ...request, imageUpload: undefined, imageUrl };
+    } catch (error) {
+      logger.error('❌ Image upload failed:', error);
+      throw new ApiError(
+        `Image upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'IMAGE_UPLOAD_FAILED',
+        502
+      );
+    }
+  }
+
+  // Launches cut off by a restart can resume at once instead of after config.apiTimeout
+  async releaseInterruptedSession(sessionId: string): Promise<void> {
+    const session = await this.sessionStore.get(sessionId);
+    if (session && (session.status === 'submitted' || session.status === 'executing')) {
+      await this.updateSession(session, { status: 'failed', error: 'Interrupted by a server restart' });
+    }
+  }
+
+  private getSessionLaunchRecord(
+    session: LaunchSession,
+    startedAt: number,
+    attempt?: LaunchAttempt
+  ): LaunchRecordDraft {
+    return {
+      operation: 'execute',
+      sessionId: session.id,
+      wallet: session.request.userWallet,
+      mintAddress: session.mintAddress,
+      name: session.request.name,
+      symbol: session.request.symbol,
+      image: session.request.imageUrl,
+      metadataUri: session.metadataUri,
+      executionMode: session.request.executionMode || 'staged',
+      cluster: session.request.cluster ?? config.cluster,
+      attempt: attempt?.number,
+      startedAt,
+      signatures: session.steps.flatMap(
+        (step) => step.signatures ?? (step.signature ? [step.signature] : [])
+      ),
+      feeLamports: 0,
+      outcome: 'failure'
+    };
+  }
+
+  // Ledger writes never fail the call they describe; the finished record also goes to webhooks
+  private async recordLaunch(record: LaunchRecordDraft, error?: unknown): Promise<void> {
+    const completedAt = Date.now();
+    const launch: LaunchRecord = {
+      id: uuidv4(),
+      ...record,
+      completedAt,
+      durationMs: completedAt - record.startedAt,
+      ...(error !== undefined && {
+        outcome: 'failure',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: error instanceof ApiError ? error.code : undefined
+      })
+    };
+    try {
+      await this.launchLedger.append(launch);
+    } catch (ledgerError) {
+      logger.error('Failed to write launch ledger record:', ledgerError);
+    }
+    getWebhookService().emitLaunch(launch);
+  }
+
+  async getSessionStatus(sessionId: string): Promise<LaunchSessionStatusResponse | null> {
+    const session = await this.sessionStore.get(sessionId);
+    return session ? this.toSessionStatus(session) : null;
+  }
+
+  /**
+   * Streams a session's progress to onEvent, starting with its current
+   * status. Saves in this process arrive at once; the store is also polled so
+   * launches executed by another process show up. A failed launch ends the
+   * stream even though it can be retried. Returns the function that stops
+   * watching, or null when the session does not exist.
+   */
+  async watchSession(
+    sessionId: string,
+    onEvent: (event: LaunchProgressEvent) => void
+  ): Promise<(() => void) | null> {
+    const session = await this.sessionStore.get(sessionId);
+    if (!session) return null;
+
+    let last = this.toSessionStatus(session);
+    let stopped = false;
+    const stop = () => {
+      stopped = true;
+      unsubscribe();
+      clearInterval(poll);
+    };
+
+    const update = (next: LaunchSession) => {
+      // Equal timestamps pass: identical states produce no events
+      if (stopped || next.updatedAt < last.updatedAt) return;
+      const status = this.toSessionStatus(next);
+      const completedBefore = new Set(
+        last.steps.filter((step) => step.status === 'completed').map((step) => step.step)
+      );
+      for (const step of status.steps) {
+        if (step.status === 'completed' && !completedBefore.has(step.step)) {
+          onEvent({ type: 'step', data: step });
+        }
+      }
+      if (status.status !== last.status || status.currentStep !== last.currentStep) {
+        onEvent({ type: 'status', data: status });
+      }
+      last = status;
+      if (isFinishedSession(status)) {
+        onEvent({ type: 'done', data: status });
+        stop();
+      }
+    };
+
+    const unsubscribe = getSessionEvents().subscribe(sessionId, update);
+    const poll = setInterval(() => {
+      this.sessionStore
+        .get(sessionId)
+        .then((stored) => stored && update(stored))
+        .catch((error) => logger.warn(`Failed to poll session ${sessionId}:`, error));
+    }, SESSION_POLL_INTERVAL_MS);
+    poll.unref();
+
+    onEvent({ type: 'status', data: last });
+    if (isFinishedSession(last)) {
+      onEvent({ type: 'done', data: last });
+      stop();
+    }
+    return stop;
+  }
+
+  private toSessionStatus(session: LaunchSession): LaunchSessionStatusResponse {
+    const completed = new Map(session.steps.map((record) => [record.step, record]));
+    const cluster = session.request.cluster ?? config.cluster;
+
+    return {
+      sessionId: session.id,
+      status: session.status,
+      mintAddress: session.mintAddress,
+      cluster,
+      currentStep: session.currentStep,
+      steps: this.getLaunchSteps(session.request).map((step) => {
+        const record = completed.get(step);
+        const signatures = record?.signatures ?? (record?.signature ? [record.signature] : []);
+        return {
+          step,
+          status: record ? 'completed' : step === session.currentStep ? session.status : 'pending',
+          signature: record?.signature,
+          signatures: record?.signatures,
+          explorerUrls: signatures.length
+            ? signatures.map((signature) => getExplorerUrl('tx', signature, cluster))
+            : undefined,
+          completedAt: record?.completedAt
+        };
+      }),
+      error: session.error,
+      result: session.result,
+      liquidity: session.liquidity,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      expiresAt: session.expiresAt
+    };
+  }
+
+  /**
+   * Sends the pool transaction signed by the creator and waits for it to
+   * confirm. Resubmitting once the pool is confirmed returns it unchanged.
+   */
+  async submitLiquidity(sessionId: string, signedTransactionBase64: string): Promise<LiquidityInfo> {
+    let session = await this.getLiquiditySession(sessionId);
+    const sessionService = this.getSessionService(session);
+    if (sessionService !== this) {
+      return sessionService.submitLiquidity(sessionId, signedTransactionBase64);
+    }
+    if (!session.liquidity) {
+      throw new ApiError('Pool transaction has not been built; refresh it first', 'LIQUIDITY_NOT_PENDING', 409);
+    }
+
+    let liquidity = await this.liquidityService.refreshStatus(session.liquidity);
+    if (liquidity.status === 'confirmed') {
+      await this.updateSession(session, { liquidity });
+      return liquidity;
+    }
+    if (liquidity.status !== 'pending') {
+      await this.updateSession(session, { liquidity });
+      throw new ApiError(
+        liquidity.status === 'sent'
+          ? 'Pool transaction was already sent and is awaiting confirmation'
+          : `Pool transaction is ${liquidity.status}; refresh it to rebuild`,
+        'LIQUIDITY_NOT_PENDING',
+        409
+      );
+    }
+
+    const preparedMessage = Buffer.from(deserializeTransaction(liquidity.transaction).message.serialize());
+    const signedTransaction = verifySignedTransaction(
+      signedTransactionBase64,
+      preparedMessage,
+      new PublicKey(session.request.userWallet)
+    );
+
+    // Recorded before sending so the signature is tracked even if this process stops
+    const signature = getTransactionSignature(signedTransaction);
+    liquidity = {
+      ...liquidity,
+      status: 'sent',
+      signature,
+      transactionExplorerUrl: getExplorerUrl('tx', signature, this.cluster),
+      error: undefined,
+      updatedAt: Date.now()
+    };
+    session = await this.updateSession(session, { liquidity });
+    logger.info(`📤 Sending pool transaction for ${session.mintAddress}`);
+
+    let sendError: unknown;
+    try {
+      await this.transactionSender.sendAndConfirm(signedTransaction, liquidity.lastValidBlockHeight);
+      liquidity = { ...liquidity, status: 'confirmed', updatedAt: Date.now() };
+      logger.info(`✅ Pool ${liquidity.poolAddress} created`);
+    } catch (error) {
+      sendError = error;
+      liquidity = { ...liquidity, ...this.liquidityService.getFailureChanges(error), updatedAt: Date.now() };
+      logger.error(`❌ Pool transaction for ${session.mintAddress} not confirmed:`, error);
+    }
+    await this.updateSession(session, { liquidity });
+
+    if (sendError) {
+      throw sendError;
+    }
+    return liquidity;
+  }
+
+  // Settles a sent pool transaction and rebuilds one that can no longer land with a fresh blockhash
+  async refreshLiquidity(sessionId: string): Promise<LiquidityInfo> {
+    const session = await this.getLiquiditySession(sessionId);
+    const sessionService = this.getSessionService(session);
+    if (sessionService !== this) {
+      return sessionService.refreshLiquidity(sessionId);
+    }
+    let liquidity = session.liquidity && (await this.liquidityService.refreshStatus(session.liquidity));
+    if (!liquidity || ['pending', 'failed', 'expired'].includes(liquidity.status)) {
+      liquidity = await this.buildLiquidity(session);
+      logger.info(`🔄 Rebuilt pool transaction for ${session.mintAddress}`);
+    }
+    await this.updateSession(session, { liquidity });
+    return liquidity;
+  }
+
+  private async getLiquiditySession(sessionId: string): Promise<LaunchSession> {
+    const session = await this.sessionStore.get(sessionId);
+    if (!session) {
+      throw new ApiError('Session not found or expired', 'SESSION_NOT_FOUND', 404);
+    }
+    if (!session.request.liquidity) {
+      throw new ApiError('This launch did not request liquidity', 'LIQUIDITY_NOT_REQUESTED');
+    }
+    if (session.status !== 'completed') {
+      throw new ApiError('Liquidity can only be added once the launch has completed', 'SESSION_IN_PROGRESS', 409);
+    }
+    return session;
+  }
+
+  // Pool transaction for a completed launch, paid and signed by the creator
+  private buildLiquidity(session: LaunchSession): Promise<LiquidityInfo> {
+    const liquidity = session.request.liquidity!;
+    const { decimals } = this.resolveTokenAmounts(session.request);
+    return this.liquidityService.buildPoolTransaction({
+      mint: new PublicKey(session.mintAddress),
+      creator: new PublicKey(session.request.userWallet),
+      decimals,
+      tokenAmount: parseTokenAmount(String(liquidity.tokenAmount), decimals),
+      solAmount: parseTokenAmount(String(liquidity.solAmount), 9),
+      lpLock: liquidity.lpLock ?? 'none',
+      priorityFee: session.priorityFee,
+      transactionVersion: session.request.transactionVersion ?? 'legacy'
+    });
+  }
+
+  /**
+   * Checks that the user's wallet holds what their staged transaction spends:
+   * the signed launch fee, their token account's rent and the transaction fees.
+   * A wallet that cannot pay would leave the master wallet with an unused mint.
+   */
+  private async assertUserCanPay(session: LaunchSession, context: LaunchContext): Promise<void> {
+    const { userWalletPubkey, userTokenAccount } = context;
+    const [balance, tokenAccountInfo] = await Promise.all([
+      this.connection.getBalance(userWalletPubkey, 'confirmed'),
+      this.connection.getAccountInfo(userTokenAccount, 'confirmed')
+    ]);
+    const tokenAccountRent = tokenAccountInfo
+      ? 0
+      : await this.connection.getMinimumBalanceForRentExemption(
+          getTokenAccountSpace(session.request.tokenProgram, session.request.extensions)
+        );
+    const required =
+      this.getSessionFeePaid(session, userWalletPubkey) +
+      tokenAccountRent +
+      LAMPORTS_PER_SIGNATURE +
+      session.priorityFee.estimatedFeeLamports;
+
+    if (balance < required) {
+      throw new ApiError(
+        `Launch needs ${required / LAMPORTS_PER_SOL} SOL from ${userWalletPubkey.toBase58()} but it holds ${balance / LAMPORTS_PER_SOL}`,
+        'INSUFFICIENT_SOL_BALANCE'
+      );
+    }
+  }
+
+  // Failed launches can be retried; an in-flight one only once it has gone stale
+  private isSessionResumable(session: LaunchSession): boolean {
+    if (session.status === 'prepared' || session.status === 'failed') return true;
+    if (session.status === 'submitted' || session.status === 'executing') {
+      return Date.now() - session.updatedAt > config.apiTimeout;
+    }
+    return false;
+  }
+
+  private getLaunchSteps(request: PrepareTokenRequest): LaunchStep[] {
+    // Atomic launches are a single transaction the user already signed
+    if (request.executionMode === 'atomic') {
+      return ['user_transaction'];
+    }
+
+    const steps: LaunchStep[] = ['create_mint', 'user_transaction'];
+    if (requiresFreezeAuthority(request.extensions)) {
+      steps.push('thaw_account');
+    }
+    steps.push('mint_to');
+    if (hasVestedAllocations(request)) {
+      steps.push('create_vesting');
+    }
+    steps.push('create_metadata', 'revoke_mint_authority', 'revoke_freeze_authority');
+    return steps;
+  }
+
+  /**
+   * Runs a single launch step. Every step first checks on-chain state so a
+   * retry after a transaction landed but was never recorded does not repeat it.
+   * Returns the transaction signature (several for batched steps), or undefined
+   * if nothing had to be sent.
+   */
+  private async runLaunchStep(
+    step: LaunchStep,
+    session: LaunchSession,
+    context: LaunchContext
+  ): Promise<string | string[] | undefined> {
+    const { mintKeypair, amounts, tokenProgramId, userTokenAccount } = context;
+    const mint = mintKeypair.publicKey;
+
+    switch (step) {
+      case 'create_mint': {
+        if (await this.connection.getAccountInfo(mint)) {
+          logger.info('↩️ Mint account already exists');
+          return undefined;
+        }
+        // The master wallet pays for the mint before the user's transaction can land
+        await this.assertUserCanPay(session, context);
+        
+        logger.info(`🔨 Creating token mint (${getTokenStandardName(session.request.tokenProgram)})...`);
+        const signature = await this.sendMasterTransaction(
+          await this.createMintAccountInstructions(
+            session.request,
+            mint,
+            this.walletService.getMasterKeypair().publicKey,
+            amounts
+          ),
+          [mintKeypair],
+          session.priorityFee
+        );
+        logger.info(`✅ Mint created: ${mint.toBase58()}`);
+        return signature;
+      }
+
+      case 'user_transaction': {
+        // In staged mode this is sent after the mint exists, since the ATA it creates needs the mint
+        const signedTransaction = deserializeTransaction(context.signedTransaction);
+        const expectedSignature = getTransactionSignature(signedTransaction);
+        const { value: status } = await this.connection.getSignatureStatus(expectedSignature, {
+          searchTransactionHistory: true
+        });
+        if (status && !status.err && status.confirmationStatus !== 'processed') {
+          logger.info(`↩️ User transaction already confirmed: ${expectedSignature}`);
+          return expectedSignature;
+        }
+        
+        logger.info('📤 Sending user transaction...');
+        const userTxSignature = await this.transactionSender.sendAndConfirm(
+          signedTransaction,
+          session.lastValidBlockHeight
+        );
+        logger.info(`✅ User transaction confirmed: ${userTxSignature}`);
+        return userTxSignature;
+      }
+
+      case 'thaw_account': {
+        // Frozen-by-default accounts must be thawed before they can receive tokens
+        const account = await getAccount(this.connection, userTokenAccount, 'confirmed', tokenProgramId);
+        if (!account.isFrozen) {
+          logger.info('↩️ User token account already thawed');
+          return undefined;
+        }
+        
+        logger.info('🧊 Thawing user token account...');
+        return this.sendMasterTransaction(
+          [createThawAccountInstruction(userTokenAccount, mint, mint, [], tokenProgramId)],
+          [mintKeypair],
+          session.priorityFee
+        );
+      }
+
+      case 'mint_to': {
+        const mintInfo = await getMint(this.connection, mint, 'confirmed', tokenProgramId);
+        if (mintInfo.supply >= amounts.supply) {
+          logger.info('↩️ Supply already minted');
+          return undefined;
+        }
+        
+        const recipients = await this.createAllocationInstructions(
+          context.allocations.filter((allocation) => !allocation.vesting),
+          mint,
+          tokenProgramId,
+          this.walletService.getMasterKeypair().publicKey,
+          requiresFreezeAuthority(session.request.extensions),
+          true
+        );
+        logger.info(`💎 Minting tokens to ${recipients.length} recipient(s)...`);
+        
+        // A few recipients per transaction keeps each one under the size limit
+        const signatures: string[] = [];
+        for (let i = 0; i < recipients.length; i += ALLOCATIONS_PER_TRANSACTION) {
+          signatures.push(
+            await this.sendMasterTransaction(
+              recipients.slice(i, i + ALLOCATIONS_PER_TRANSACTION).flat(),
+              [mintKeypair],
+              session.priorityFee
+            )
+          );
+        }
+        logger.info(`✅ Minted ${formatTokenAmount(amounts.supply, amounts.decimals)} tokens`);
+        return signatures;
+      }
+
+      case 'create_vesting': {
+        // Vested allocations are minted to the master wallet, then moved into escrow by Create
+        const masterPubkey = this.walletService.getMasterKeypair().publicKey;
+        const sourceTokenAccount = getAssociatedTokenAddressSync(mint, masterPubkey, false, tokenProgramId);
+        const signatures: string[] = [];
+        
+        for (const allocation of context.allocations.filter((item) => item.vesting)) {
+          const destinationTokenAccount = getAssociatedTokenAddressSync(
+            mint,
+            allocation.wallet,
+            true,
+            tokenProgramId
+          );
+          const addresses = getVestingAddresses(mint, destinationTokenAccount);
+          const vestingInfo = await this.connection.getAccountInfo(addresses.vestingAccount, 'confirmed');
+          if (vestingInfo && decodeVestingAccount(vestingInfo.data).isInitialized) {
+            logger.info(`↩️ Vesting for ${allocation.wallet.toBase58()} already created`);
+            continue;
+          }
+          
+          const sourceInfo = await this.connection.getAccountInfo(sourceTokenAccount, 'confirmed');
+          const sourceBalance = sourceInfo
+            ? unpackAccount(sourceTokenAccount, sourceInfo, tokenProgramId).amount
+            : 0n;
+          const missing = allocation.amount - sourceBalance;
+          const [setupInstructions, createInstructions] = this.createVestingInstructions(
+            allocation,
+            this.getVestingSchedule(allocation, session),
+            mint,
+            tokenProgramId,
+            !vestingInfo,
+            missing
+          );
+          
+          logger.info(`🔐 Creating vesting escrow for ${allocation.label || allocation.wallet.toBase58()}...`);
+          signatures.push(
+            await this.sendMasterTransaction(
+              setupInstructions,
+              missing > 0n ? [mintKeypair] : [],
+              session.priorityFee
+            )
+          );
+          signatures.push(await this.sendMasterTransaction(createInstructions, [], session.priorityFee));
+          logger.info(
+            `✅ Vested ${formatTokenAmount(allocation.amount, amounts.decimals)} tokens in ${addresses.vestingAccount.toBase58()}`
+          );
+        }
+        
+        return signatures.length > 0 ? signatures : undefined;
+      }
+
+      case 'create_metadata': {
+        // Written while the mint keypair still holds mint authority
+        const metadataPda = findMetadataPda(this.umi!, { mint: publicKey(mint.toBase58()) });
+        if (await this.connection.getAccountInfo(new PublicKey(metadataPda[0].toString()))) {
+          logger.info('↩️ Metadata account already exists');
+          return undefined;
+        }
+        
+        logger.info('📝 Creating token metadata...');
+        const signature = await this.sendMasterTransaction(
+          this.createMetadataInstructions(
+            session.request,
+            mint,
+            session.metadataUri,
+            this.walletService.getMasterKeypair().publicKey
+          ),
+          [mintKeypair],
+          session.priorityFee
+        );
+        logger.info(`✅ Metadata created: ${signature}`);
+        return signature;
+      }
+
+      case 'revoke_mint_authority': {
+        const mintInfo = await getMint(this.connection, mint, 'confirmed', tokenProgramId);
+        if (!mintInfo.mintAuthority) {
+          logger.info('↩️ Mint authority already revoked');
+          return undefined;
+        }
+        
+        logger.info('🔒 Revoking mint authority...');
+        return this.sendMasterTransaction(
+          [createSetAuthorityInstruction(mint, mint, AuthorityType.MintTokens, null, [], tokenProgramId)],
+          [mintKeypair],
+          session.priorityFee
+        );
+      }
+
+      case 'revoke_freeze_authority': {
+        const freezeAuthority = this.getFinalFreezeAuthority(session.request);
+        const mintInfo = await getMint(this.connection, mint, 'confirmed', tokenProgramId);
+        if (
+          freezeAuthority
+            ? mintInfo.freezeAuthority?.equals(freezeAuthority)
+            : !mintInfo.freezeAuthority
+        ) {
+          logger.info('↩️ Freeze authority already settled');
+          return undefined;
+        }
+        
+        logger.info(
+          freezeAuthority
+            ? '🔑 Transferring freeze authority to creator...'
+            : '🔒 Revoking freeze authority...'
+        );
+        const signature = await this.sendMasterTransaction(
+          [
+            createSetAuthorityInstruction(
+              mint,
+              mint,
+              AuthorityType.FreezeAccount,
+              freezeAuthority,
+              [],
+              tokenProgramId
+            )
+          ],
+          [mintKeypair],
+          session.priorityFee
+        );
+        logger.info(
+          freezeAuthority
+            ? '✅ Mint authority revoked - creator holds freeze authority'
+            : '✅ All authorities revoked - token is now immutable'
+        );
+        return signature;
+      }
+    }
+  }
+
+  /**
+   * Master wallet pays; extra signers are usually the mint keypair. Uses the
+   * session's compute unit price with a limit simulated for these instructions.
+   */
+  private async sendMasterTransaction(
+    instructions: TransactionInstruction[],
+    signers: Keypair[],
+    priorityFee?: PriorityFeeInfo
+  ): Promise<string> {
+    const masterKeypair = this.walletService.getMasterKeypair();
+    const computeUnitLimit = await this.priorityFeeService.estimateComputeUnits(
+      instructions,
+      masterKeypair.publicKey
+    );
+    const budgetInstructions = this.priorityFeeService.createComputeBudgetInstructions({
+      level: priorityFee?.level ?? config.priorityLevel,
+      microLamports:
+        priorityFee?.microLamports ??
+        (await this.priorityFeeService.getComputeUnitPrice(config.priorityLevel)),
+      computeUnitLimit,
+      estimatedFeeLamports: 0
+    });
+    
+    return this.transactionSender.sendWithRetry(({ blockhash }) => {
+      const transaction = buildTransaction(
+        [...budgetInstructions, ...instructions],
+        masterKeypair.publicKey,
+        blockhash,
+        0
+      ) as VersionedTransaction;
+      transaction.sign([masterKeypair, ...signers]);
+      return transaction;
+    });
+  }
+
+  /**
+   * Reads a mint and its Metaplex metadata from chain, plus the off-chain JSON
+   * the metadata URI points to. Throws MINT_NOT_FOUND (404) for non-mints.
+   */
   async getTokenStatus(mintAddress: string): Promise<TokenStatusResponse> {
     try {
       logger.info(`📊 Fetching token status: ${mintAddress}`);
+      this.initializeUmi();
+      
+      const mintPubkey = new PublicKey(mintAddress);
+      const mintAccount = await this.connection.getAccountInfo(mintPubkey);
+      const isTokenProgram =
+        mintAccount &&
+        (mintAccount.owner.equals(config.tokenProgramId) ||
+          mintAccount.owner.equals(config.token2022ProgramId));
+      
+      let mintInfo: Mint | null = null;
+      if (mintAccount && isTokenProgram) {
+        try {
+          mintInfo = unpackMint(mintPubkey, mintAccount, mintAccount.owner);
+        } catch {
+          // Token accounts are owned by the same programs
+        }
+      }
+      if (!mintAccount || !mintInfo) {
+        throw new ApiError(`${mintAddress} is not a token mint`, 'MINT_NOT_FOUND', 404);
+      }
+      
+      const [metadataAddress] = findMetadataPda(this.umi!, { mint: fromWeb3JsPublicKey(mintPubkey) });
+      const [onChainMetadata, launchTimestamp, bondingCurve] = await Promise.all([
+        safeFetchMetadata(this.umi!, metadataAddress),
+        this.getLaunchTimestamp(mintPubkey),
+        // Curve state is extra detail, so a DBC lookup failure does not fail the status
+        this.bondingCurveService.getCurveState(mintPubkey).catch((error) => {
+          logger.warn(`Could not read bonding curve state: ${error instanceof Error ? error.message : error}`);
+          return null;
+        })
+      ]);
+      
+      // Metaplex pads strings with null bytes
+      const name = onChainMetadata?.name.replace(/\0/g, '').trim() ?? '';
+      const symbol = onChainMetadata?.symbol.replace(/\0/g, '').trim() ?? '';
+      const uri = onChainMetadata?.uri.replace(/\0/g, '').trim() ?? '';
+      const fetched = uri ? await this.ipfsService.fetchJson(uri) : null;
+      // Off-chain JSON is whatever the URI serves, so anything but an object counts as missing
+      const json = isPlainObject(fetched) ? fetched : null;
+      const attributes = Array.isArray(json?.attributes) ? json.attributes.filter(isPlainObject) : [];
       
-      // Simple status - no pool info since we don't create pools
       const metadata: TokenMetadata = {
-        name: 'Token',
-        symbol: 'TKN',
-        uri: 'https://ipfs.io/ipfs/QmPlaceholder',
-        description: 'Simple immutable token',
-        image: '',
-        externalUrl: '',
-        attributes: []
+        name: json?.name || name,
+        symbol: json?.symbol || symbol,
+        uri,
+        description: json?.description,
+        image: json?.image,
+        externalUrl: json?.external_url,
+        attributes: attributes.map((attribute) => ({
+          traitType: attribute.trait_type,
+          value: String(attribute.value)
+        }))
       };
 
       return {
         mintAddress,
-        name: metadata.name,
-        symbol: metadata.symbol,
-        decimals: config.defaultDecimals,
-        totalSupply: config.defaultSupply.toString(),
+        cluster: this.cluster,
+        explorerUrl: getExplorerUrl('token', mintAddress, this.cluster),
+        name,
+        symbol,
+        decimals: mintInfo.decimals,
+        totalSupply: mintInfo.supply.toString(),
+        tokenProgram: mintAccount.owner.equals(config.token2022ProgramId) ? 'token-2022' : 'spl',
+        programId: mintAccount.owner.toBase58(),
+        mintAuthority: mintInfo.mintAuthority?.toBase58() ?? null,
+        freezeAuthority: mintInfo.freezeAuthority?.toBase58() ?? null,
+        metadataAddress: metadataAddress.toString(),
+        updateAuthority: onChainMetadata?.updateAuthority.toString() ?? null,
+        isMutable: onChainMetadata?.isMutable ?? false,
         metadata,
-        launchTimestamp: Date.now(),
+        launchTimestamp,
+        bondingCurve
       };
     } catch (error) {
       logger.error('Failed to get token status:', error);
@@ -561,7 +1525,55 @@ export class TokenService {
     }
   }
 
-  private validateTokenRequest(request: LaunchTokenRequest): void {
+  // Walks the mint's signature history back to its first transaction, once per mint
+  private async getLaunchTimestamp(mint: PublicKey): Promise<number | null> {
+    const key = mint.toBase58();
+    const cached = this.launchTimestamps.get(key);
+    if (cached !== undefined) return cached;
+
+    let before: string | undefined;
+    
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+      const signatures = await this.connection.getSignaturesForAddress(mint, {
+        before,
+        limit: SIGNATURE_PAGE_SIZE
+      });
+      if (signatures.length === 0) return null;
+      
+      const oldest = signatures[signatures.length - 1];
+      if (signatures.length < SIGNATURE_PAGE_SIZE) {
+        // A missing block time may still be filled in, so only found timestamps are kept
+        if (!oldest.blockTime) return null;
+        return this.cacheLaunchTimestamp(key, oldest.blockTime * 1000);
+      }
+      before = oldest.signature;
+    }
+    
+    // The history only grows, so a mint past the walk limit stays past it
+    logger.warn(`Mint ${key} has too many transactions to find its launch`);
+    return this.cacheLaunchTimestamp(key, null);
+  }
+
+  private cacheLaunchTimestamp(mint: string, timestamp: number | null): number | null {
+    if (this.launchTimestamps.size >= LAUNCH_TIMESTAMP_CACHE_SIZE) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      this.launchTimestamps.delete(this.launchTimestamps.keys().next().value!);
+    }
+    this.launchTimestamps.set(mint, timestamp);
+    return timestamp;
+  }
+
+  // Any problem with the request is a 400, so a queued launch fails at once instead of retrying
+  private validateTokenRequest(request: PrepareTokenRequest): void {
+    try {
+      this.checkTokenRequest(request);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(error instanceof Error ? error.message : 'Invalid token request', 'INVALID_TOKEN_REQUEST');
+    }
+  }
+
+  private checkTokenRequest(request: PrepareTokenRequest): void {
     if (!request.name?.trim()) {
       throw new Error('Token name is required');
     }
@@ -587,27 +1599,838 @@ export class TokenService {
     if (request.description && request.description.length > 200) {
       throw new Error('Description must be 200 characters or less');
     }
+
+    // Throws on invalid decimals, a supply that overflows u64 or allocations that do not add up
+    const amounts = this.resolveTokenAmounts(request);
+    const allocations = this.resolveLaunchAllocations(request, amounts);
+
+    if (hasVestedAllocations(request)) {
+      if (request.executionMode === 'atomic') {
+        throw new Error('Vested allocations require the staged execution mode');
+      }
+      if (request.tokenProgram === 'token-2022') {
+        throw new Error('Vested allocations are only supported for SPL Token mints');
+      }
+      for (const allocation of allocations.filter((item) => item.vesting)) {
+        buildVestingSchedule(allocation.amount, allocation.vesting!, Math.floor(Date.now() / 1000));
+      }
+    }
+
+    validateTokenExtensions(request.tokenProgram, request.extensions);
+
+    if (request.launchMode === 'bonding-curve') {
+      if (request.executionMode === 'staged') {
+        throw new Error('Bonding curve launches are a single transaction and cannot use the staged execution mode');
+      }
+      if (request.supply || (request.decimals !== undefined && request.decimals !== null)) {
+        throw new Error('Supply and decimals of bonding curve launches are set by the DBC config');
+      }
+      if (request.allocations?.length) {
+        throw new Error('Bonding curve launches put the whole supply in the pool and cannot have allocations');
+      }
+      if (request.tokenProgram === 'token-2022' || request.extensions) {
+        throw new Error('Bonding curve launches only support SPL Token mints');
+      }
+      if (request.mutableMetadata) {
+        throw new Error('Bonding curve launches always have immutable metadata');
+      }
+    }
+
+    if (request.liquidity) {
+      if (request.launchMode === 'bonding-curve') {
+        throw new Error('Bonding curve launches trade in their DBC pool and cannot add liquidity');
+      }
+      if (request.tokenProgram === 'token-2022') {
+        throw new Error('Liquidity pools are only supported for SPL Token mints');
+      }
+      const tokenAmount = parseTokenAmount(String(request.liquidity.tokenAmount), amounts.decimals);
+      const solAmount = parseTokenAmount(String(request.liquidity.solAmount), 9);
+      if (tokenAmount === 0n || solAmount === 0n) {
+        throw new Error('Liquidity token and SOL amounts must be greater than zero');
+      }
+      // Vested tokens are still in escrow when the pool is created
+      const available = allocations
+        .filter((allocation) => !allocation.vesting && allocation.wallet.toBase58() === request.userWallet)
+        .reduce((total, allocation) => total + allocation.amount, 0n);
+      if (tokenAmount > available) {
+        throw new Error(
+          `Liquidity needs ${formatTokenAmount(tokenAmount, amounts.decimals)} tokens but the creator receives ${formatTokenAmount(available, amounts.decimals)}`
+        );
+      }
+      if (getLiquidityLpAmounts(tokenAmount, solAmount).lpAmount <= 0n) {
+        throw new Error('Liquidity is too small to mint LP tokens');
+      }
+    }
+
+    if (request.vanity) {
+      validateVanityOptions(request.vanity, config.vanityMaxLength);
+    }
+  }
+
+  // Bonding curve tokens are one user transaction, with supply and decimals set by the DBC config
+  private async resolveLaunchRequest(request: PrepareTokenRequest): Promise<PrepareTokenRequest> {
+    if (request.launchMode !== 'bonding-curve') return request;
+
+    const { decimals, supply } = await this.bondingCurveService.getLaunchConfig();
+    return {
+      ...request,
+      executionMode: 'atomic',
+      decimals,
+      supply: formatTokenAmount(supply, decimals)
+    };
+  }
+
+  /**
+   * Instructions of the transaction the user signs: the whole launch in
+   * atomic and bonding-curve mode, otherwise their token account and the fee.
+   */
+  private async createUserInstructions(
+    request: PrepareTokenRequest,
+    mint: PublicKey,
+    metadataUri: string,
+    amounts: TokenAmounts
+  ): Promise<{ instructions: TransactionInstruction[]; poolAddress?: PublicKey }> {
+    const userWalletPubkey = new PublicKey(request.userWallet);
+    const feeInstruction = this.createPlatformFeeInstruction(userWalletPubkey);
+
+    if (request.launchMode === 'bonding-curve') {
+      // The pool program creates the mint and metadata and holds the whole supply
+      const pool = await this.bondingCurveService.createPoolInstructions({
+        mint,
+        creator: userWalletPubkey,
+        name: request.name,
+        symbol: request.symbol,
+        uri: metadataUri
+      });
+      logger.info(`📈 DBC pool: ${pool.poolAddress.toBase58()}`);
+      return {
+        instructions: feeInstruction ? [...pool.instructions, feeInstruction] : pool.instructions,
+        poolAddress: pool.poolAddress
+      };
+    }
+
+    if (request.executionMode === 'atomic') {
+      // The whole launch in one user-paid transaction
+      return { instructions: await this.createAtomicLaunchInstructions(request, mint, metadataUri, amounts) };
+    }
+
+    // Add create ATA instruction (user pays for their own ATA). Idempotent, so
+    // a retried launch does not fail if the account was already created.
+    const tokenProgramId = getTokenProgramId(request.tokenProgram);
+    const instructions = [
+      createAssociatedTokenAccountIdempotentInstruction(
+        userWalletPubkey, // payer (user pays)
+        getAssociatedTokenAddressSync(mint, userWalletPubkey, false, tokenProgramId), // ata
+        userWalletPubkey, // owner
+        mint, // mint
+        tokenProgramId
+      )
+    ];
+    if (feeInstruction) {
+      instructions.push(feeInstruction);
+    }
+    return { instructions };
+  }
+
+  // Mint account sized for any Token-2022 extensions; the mint keypair is mint and freeze authority
+  private async createMintAccountInstructions(
+    request: PrepareTokenRequest,
+    mint: PublicKey,
+    payer: PublicKey,
+    amounts: TokenAmounts
+  ): Promise<TransactionInstruction[]> {
+    const tokenProgramId = getTokenProgramId(request.tokenProgram);
+    const mintSpace = getMintSpace(request.extensions);
+    const mintRent = await this.connection.getMinimumBalanceForRentExemption(mintSpace);
+
+    return [
+      SystemProgram.createAccount({
+        fromPubkey: payer,
+        newAccountPubkey: mint,
+        lamports: mintRent,
+        space: mintSpace,
+        programId: tokenProgramId
+      }),
+      // Extensions must be initialized before the mint itself
+      ...createInitializeExtensionInstructions(
+        mint,
+        new PublicKey(request.userWallet),
+        request.extensions,
+        tokenProgramId
+      ),
+      createInitializeMintInstruction(mint, amounts.decimals, mint, mint, tokenProgramId)
+    ];
+  }
+
+  /**
+   * The two master transactions of a vested allocation: open the escrow and
+   * token accounts and mint the missing amount to the master wallet, then
+   * move it into escrow. The schedule goes in its own transaction so long
+   * schedules still fit.
+   */
+  private createVestingInstructions(
+    allocation: ResolvedAllocation,
+    schedule: VestingScheduleEntry[],
+    mint: PublicKey,
+    tokenProgramId: PublicKey,
+    initVesting: boolean,
+    missing: bigint
+  ): [TransactionInstruction[], TransactionInstruction[]] {
+    const masterPubkey = this.walletService.getMasterKeypair().publicKey;
+    const sourceTokenAccount = getAssociatedTokenAddressSync(mint, masterPubkey, false, tokenProgramId);
+    const destinationTokenAccount = getAssociatedTokenAddressSync(mint, allocation.wallet, true, tokenProgramId);
+    const addresses = getVestingAddresses(mint, destinationTokenAccount);
+
+    const setupInstructions: TransactionInstruction[] = [];
+    if (initVesting) {
+      setupInstructions.push(createVestingInitInstruction(masterPubkey, addresses, schedule.length));
+    }
+    setupInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        masterPubkey,
+        addresses.vestingTokenAccount,
+        addresses.vestingAccount,
+        mint,
+        tokenProgramId
+      ),
+      createAssociatedTokenAccountIdempotentInstruction(
+        masterPubkey,
+        destinationTokenAccount,
+        allocation.wallet,
+        mint,
+        tokenProgramId
+      ),
+      createAssociatedTokenAccountIdempotentInstruction(
+        masterPubkey,
+        sourceTokenAccount,
+        masterPubkey,
+        mint,
+        tokenProgramId
+      )
+    );
+    if (missing > 0n) {
+      setupInstructions.push(
+        createMintToInstruction(mint, sourceTokenAccount, mint, missing, [], tokenProgramId)
+      );
+    }
+
+    return [
+      setupInstructions,
+      [
+        createVestingCreateInstruction(
+          addresses,
+          mint,
+          destinationTokenAccount,
+          masterPubkey,
+          sourceTokenAccount,
+          schedule
+        )
+      ]
+    ];
+  }
+
+  // A frozen default state needs a live freeze authority, so hand it to the creator
+  private getFinalFreezeAuthority(request: PrepareTokenRequest): PublicKey | null {
+    return requiresFreezeAuthority(request.extensions) ? new PublicKey(request.userWallet) : null;
+  }
+
+  /**
+   * Every transaction a fresh launch sends, in order, with the accounts each
+   * one opens. Mirrors the prepared user transaction and runLaunchStep for a
+   * mint that does not exist yet.
+   */
+  private async planLaunchTransactions(
+    request: PrepareTokenRequest,
+    mint: PublicKey,
+    metadataUri: string,
+    amounts: TokenAmounts
+  ): Promise<PlannedTransaction[]> {
+    const tokenProgramId = getTokenProgramId(request.tokenProgram);
+    const userWalletPubkey = new PublicKey(request.userWallet);
+    const masterPubkey = this.walletService.getMasterKeypair().publicKey;
+    const mintAccount: PlannedAccount = { account: 'mint', space: getMintSpace(request.extensions) };
+    const metadataAccount: PlannedAccount = { account: 'metadata', space: METADATA_ACCOUNT_SPACE };
+    const tokenAccount: PlannedAccount = {
+      account: 'token_account',
+      space: getTokenAccountSpace(request.tokenProgram, request.extensions)
+    };
+    const { instructions } = await this.createUserInstructions(request, mint, metadataUri, amounts);
+
+    if (request.launchMode === 'bonding-curve') {
+      const poolAccounts = this.bondingCurveService
+        .getPoolAccountSpaces()
+        .map((space): PlannedAccount => ({ account: 'pool', space }));
+      return [
+        {
+          step: 'user_transaction',
+          payer: 'user',
+          instructions,
+          signers: 1,
+          accounts: [mintAccount, metadataAccount, ...poolAccounts]
+        }
+      ];
+    }
+
+    const allocations = this.resolveLaunchAllocations(request, amounts);
+    if (request.executionMode === 'atomic') {
+      return [
+        {
+          step: 'user_transaction',
+          payer: 'user',
+          instructions,
+          signers: 1,
+          accounts: [mintAccount, ...allocations.map(() => tokenAccount), metadataAccount]
+        }
+      ];
+    }
+
+    const transactions: PlannedTransaction[] = [
+      {
+        step: 'create_mint',
+        payer: 'master',
+        instructions: await this.createMintAccountInstructions(request, mint, masterPubkey, amounts),
+        signers: 1,
+        accounts: [mintAccount]
+      },
+      { step: 'user_transaction', payer: 'user', instructions, signers: 0, accounts: [tokenAccount] }
+    ];
+    if (requiresFreezeAuthority(request.extensions)) {
+      const userTokenAccount = getAssociatedTokenAddressSync(mint, userWalletPubkey, false, tokenProgramId);
+      transactions.push({
+        step: 'thaw_account',
+        payer: 'master',
+        instructions: [createThawAccountInstruction(userTokenAccount, mint, mint, [], tokenProgramId)],
+        signers: 1,
+        accounts: []
+      });
+    }
+
+    // The creator's token account already exists from the user transaction
+    const recipients = allocations.filter((allocation) => !allocation.vesting);
+    const recipientInstructions = await this.createAllocationInstructions(
+      recipients,
+      mint,
+      tokenProgramId,
+      masterPubkey,
+      requiresFreezeAuthority(request.extensions),
+      false
+    );
+    for (let i = 0; i < recipients.length; i += ALLOCATIONS_PER_TRANSACTION) {
+      const batch = recipients.slice(i, i + ALLOCATIONS_PER_TRANSACTION);
+      transactions.push({
+        step: 'mint_to',
+        payer: 'master',
+        instructions: recipientInstructions.slice(i, i + ALLOCATIONS_PER_TRANSACTION).flat(),
+        signers: 1,
+        accounts: batch
+          .filter((allocation) => !allocation.wallet.equals(userWalletPubkey))
+          .map(() => tokenAccount)
+      });
+    }
+
+    const startTime = Math.floor(Date.now() / 1000);
+    allocations
+      .filter((allocation) => allocation.vesting)
+      .forEach((allocation, index) => {
+        const schedule = buildVestingSchedule(allocation.amount, allocation.vesting!, startTime);
+        const [setupInstructions, createInstructions] = this.createVestingInstructions(
+          allocation,
+          schedule,
+          mint,
+          tokenProgramId,
+          true,
+          allocation.amount
+        );
+        const accounts: PlannedAccount[] = [
+          { account: 'vesting', space: getVestingAccountSize(schedule.length) },
+          tokenAccount
+        ];
+        if (!allocation.wallet.equals(userWalletPubkey)) accounts.push(tokenAccount);
+        if (index === 0) accounts.push(tokenAccount); // master wallet's source account
+        transactions.push(
+          { step: 'create_vesting', payer: 'master', instructions: setupInstructions, signers: 1, accounts },
+          { step: 'create_vesting', payer: 'master', instructions: createInstructions, signers: 0, accounts: [] }
+        );
+      });
+
+    transactions.push(
+      {
+        step: 'create_metadata',
+        payer: 'master',
+        instructions: this.createMetadataInstructions(request, mint, metadataUri, masterPubkey),
+        signers: 1,
+        accounts: [metadataAccount]
+      },
+      {
+        step: 'revoke_mint_authority',
+        payer: 'master',
+        instructions: [createSetAuthorityInstruction(mint, mint, AuthorityType.MintTokens, null, [], tokenProgramId)],
+        signers: 1,
+        accounts: []
+      },
+      {
+        step: 'revoke_freeze_authority',
+        payer: 'master',
+        instructions: [
+          createSetAuthorityInstruction(
+            mint,
+            mint,
+            AuthorityType.FreezeAccount,
+            this.getFinalFreezeAuthority(request),
+            [],
+            tokenProgramId
+          )
+        ],
+        signers: 1,
+        accounts: []
+      }
+    );
+    return transactions;
+  }
+
+  /**
+   * Plans a launch and simulates each transaction, pricing rent, base and
+   * priority fees per payer. Master transactions use the user's compute unit
+   * price, as they do when a session executes.
+   */
+  private async analyzeLaunch(
+    request: PrepareTokenRequest
+  ): Promise<{ estimate: LaunchEstimateResponse; simulations: TransactionSimulation[] }> {
+    this.initializeUmi();
+    this.validateTokenRequest(request);
+    const launchMode = request.launchMode || 'simple';
+    request = await this.resolveLaunchRequest(request);
+    const amounts = this.resolveTokenAmounts(request);
+
+    const plan = await this.planLaunchTransactions(
+      request,
+      Keypair.generate().publicKey,
+      DRY_RUN_METADATA_URI,
+      amounts
+    );
+    const payers: Record<LaunchPayer, PublicKey> = {
+      user: new PublicKey(request.userWallet),
+      master: this.walletService.getMasterKeypair().publicKey
+    };
+    const userTransaction = plan.find((transaction) => transaction.step === 'user_transaction')!;
+    const priorityFee = await this.priorityFeeService.getPriorityFee(
+      userTransaction.instructions,
+      payers.user,
+      request.priorityLevel,
+      request.priorityFeeMicroLamports
+    );
+
+    const costs: Record<LaunchPayer, PayerCostEstimate> = {
+      user: { ...EMPTY_PAYER_COST },
+      master: { ...EMPTY_PAYER_COST }
+    };
+    const rent = new Map<string, RentEstimate>();
+    const rentBySpace = new Map<number, number>();
+    const simulations: TransactionSimulation[] = [];
+
+    for (const [index, transaction] of plan.entries()) {
+      const simulation = await this.priorityFeeService.simulate(transaction.instructions, payers[transaction.payer]);
+      simulations.push({
+        step: transaction.step,
+        payer: transaction.payer,
+        success: !simulation.err,
+        requiresEarlierSteps: index > 0,
+        unitsConsumed: simulation.unitsConsumed,
+        error: simulation.err ? JSON.stringify(simulation.err) : undefined,
+        logs: simulation.logs ?? []
+      });
+
+      const computeUnitLimit =
+        transaction === userTransaction
+          ? priorityFee.computeUnitLimit
+          : this.priorityFeeService.getComputeUnitLimit(simulation);
+      const cost = costs[transaction.payer];
+      cost.transactions++;
+      cost.networkFeeLamports += LAMPORTS_PER_SIGNATURE * (1 + transaction.signers);
+      cost.priorityFeeLamports += Math.ceil((priorityFee.microLamports * computeUnitLimit) / 1_000_000);
+
+      for (const { account, space } of transaction.accounts) {
+        if (!rentBySpace.has(space)) {
+          rentBySpace.set(space, await this.connection.getMinimumBalanceForRentExemption(space));
+        }
+        const lamports = rentBySpace.get(space)!;
+        const key = `${transaction.payer}:${account}`;
+        const entry = rent.get(key) ?? { account, payer: transaction.payer, count: 0, lamports: 0 };
+        rent.set(key, { ...entry, count: entry.count + 1, lamports: entry.lamports + lamports });
+        cost.rentLamports += lamports;
+      }
+    }
+
+    if (this.createPlatformFeeInstruction(payers.user)) {
+      costs.user.platformFeeLamports = config.launchFeeLamports;
+    }
+    for (const cost of Object.values(costs)) {
+      cost.totalLamports =
+        cost.rentLamports + cost.networkFeeLamports + cost.priorityFeeLamports + cost.platformFeeLamports;
+    }
+
+    return {
+      estimate: {
+        executionMode: request.executionMode || 'staged',
+        launchMode,
+        priorityFee,
+        rent: [...rent.values()],
+        costs,
+        totalLamports: costs.user.totalLamports + costs.master.totalLamports
+      },
+      simulations
+    };
+  }
+
+  /**
+   * Everything a launch does, paid by the user: create and initialize the mint,
+   * create each recipient's ATA and mint its allocation, write metadata and
+   * settle authorities.
+   * The mint keypair is the only other signer.
+   */
+  private async createAtomicLaunchInstructions(
+    request: PrepareTokenRequest,
+    mint: PublicKey,
+    metadataUri: string,
+    amounts: TokenAmounts
+  ): Promise<TransactionInstruction[]> {
+    const tokenProgramId = getTokenProgramId(request.tokenProgram);
+    const userWalletPubkey = new PublicKey(request.userWallet);
+    const freezeAuthority = this.getFinalFreezeAuthority(request);
+
+    const instructions: TransactionInstruction[] = [
+      ...(await this.createMintAccountInstructions(request, mint, userWalletPubkey, amounts)),
+      ...(
+        await this.createAllocationInstructions(
+          this.resolveLaunchAllocations(request, amounts),
+          mint,
+          tokenProgramId,
+          userWalletPubkey,
+          !!freezeAuthority,
+          false
+        )
+      ).flat()
+    ];
+
+    const feeInstruction = this.createPlatformFeeInstruction(userWalletPubkey);
+
+    instructions.push(
+      ...this.createMetadataInstructions(request, mint, metadataUri, userWalletPubkey),
+      createSetAuthorityInstruction(mint, mint, AuthorityType.MintTokens, null, [], tokenProgramId),
+      createSetAuthorityInstruction(
+        mint,
+        mint,
+        AuthorityType.FreezeAccount,
+        freezeAuthority,
+        [],
+        tokenProgramId
+      )
+    );
+
+    if (feeInstruction) {
+      instructions.push(feeInstruction);
+    }
+
+    return instructions;
+  }
+
+  // Vesting starts at prepare time unless the allocation sets its own start
+  private getVestingSchedule(
+    allocation: ResolvedAllocation,
+    session: LaunchSession
+  ): VestingScheduleEntry[] {
+    return buildVestingSchedule(allocation.amount, allocation.vesting!, Math.floor(session.createdAt / 1000));
+  }
+
+  private resolveLaunchAllocations(
+    request: PrepareTokenRequest,
+    amounts: TokenAmounts
+  ): ResolvedAllocation[] {
+    return resolveAllocations(request.allocations, request.userWallet, amounts.supply, amounts.decimals);
+  }
+
+  /**
+   * Instructions per recipient: create its ATA, thaw it when accounts start
+   * frozen, and mint its allocation. For an existing mint, recipients already
+   * holding their allocation are skipped so a retry never mints twice.
+   */
+  private async createAllocationInstructions(
+    allocations: ResolvedAllocation[],
+    mint: PublicKey,
+    tokenProgramId: PublicKey,
+    payer: PublicKey,
+    frozenByDefault: boolean,
+    mintExists: boolean
+  ): Promise<TransactionInstruction[][]> {
+    const tokenAccounts = allocations.map((allocation) =>
+      getAssociatedTokenAddressSync(mint, allocation.wallet, true, tokenProgramId)
+    );
+    const accountInfos = mintExists
+      ? await this.connection.getMultipleAccountsInfo(tokenAccounts, 'confirmed')
+      : tokenAccounts.map(() => null);
+
+    const recipients: TransactionInstruction[][] = [];
+    allocations.forEach((allocation, index) => {
+      const tokenAccount = tokenAccounts[index];
+      const accountInfo = accountInfos[index];
+      const account = accountInfo
+        ? unpackAccount(tokenAccount, accountInfo, tokenProgramId)
+        : null;
+      const missing = allocation.amount - (account?.amount ?? 0n);
+      if (missing <= 0n) return;
+
+      const instructions: TransactionInstruction[] = [];
+      if (!account) {
+        instructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(
+            payer,
+            tokenAccount,
+            allocation.wallet,
+            mint,
+            tokenProgramId
+          )
+        );
+      }
+      if (account ? account.isFrozen : frozenByDefault) {
+        instructions.push(createThawAccountInstruction(tokenAccount, mint, mint, [], tokenProgramId));
+      }
+      instructions.push(
+        createMintToInstruction(mint, tokenAccount, mint, missing, [], tokenProgramId)
+      );
+      recipients.push(instructions);
+    });
+
+    return recipients;
+  }
+
+  // Launch fee paid by the creator to the platform; null when no fee is configured
+  private createPlatformFeeInstruction(payer: PublicKey): TransactionInstruction | null {
+    if (config.launchFeeLamports <= 0) return null;
+    if (config.platformRewardAddress.equals(SystemProgram.programId)) {
+      logger.warn('⚠️ PLATFORM_REWARD_ADDRESS not set, launch fee is not charged');
+      return null;
+    }
+
+    return SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: config.platformRewardAddress,
+      lamports: config.launchFeeLamports
+    });
+  }
+
+  // Lamports the transaction transfers from the payer to the platform, 0 without a fee transfer
+  private getPlatformFeePaid(transaction: VersionedTransaction, payer: PublicKey): number {
+    return getTransactionInstructions(transaction).reduce((paid, instruction) => {
+      if (!instruction.programId.equals(SystemProgram.programId)) return paid;
+      try {
+        if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') return paid;
+        const transfer = SystemInstruction.decodeTransfer(instruction);
+        return transfer.fromPubkey.equals(payer) && transfer.toPubkey.equals(config.platformRewardAddress)
+          ? paid + Number(transfer.lamports)
+          : paid;
+      } catch {
+        return paid;
+      }
+    }, 0);
+  }
+
+  // The prepared message is what the user signed, so its fee transfer is the fee charged
+  private getSessionFeePaid(session: LaunchSession, payer: PublicKey): number {
+    const message = VersionedMessage.deserialize(Buffer.from(session.preparedMessage, 'base64'));
+    return this.getPlatformFeePaid(new VersionedTransaction(message), payer);
+  }
+
+  // Rejects a signed transaction whose fee transfer was removed or altered
+  private verifyPlatformFee(transaction: VersionedTransaction, payer: PublicKey): void {
+    const expected = this.createPlatformFeeInstruction(payer);
+    if (!expected) return;
+
+    if (this.getPlatformFeePaid(transaction, payer) < config.launchFeeLamports) {
+      throw new ApiError(
+        'Signed transaction is missing the platform fee transfer',
+        'PLATFORM_FEE_MISSING'
+      );
+    }
+  }
+
+  /**
+   * Builds the Metaplex CreateV1 instruction for a mint. The mint keypair
+   * signs as mint authority; metadata is immutable unless the creator
+   * asked to keep update authority.
+   */
+  private createMetadataInstructions(
+    request: PrepareTokenRequest,
+    mintAddress: PublicKey,
+    metadataUri: string,
+    payer: PublicKey
+  ): TransactionInstruction[] {
+    const mint = fromWeb3JsPublicKey(mintAddress);
+    const mintAuthority = createNoopSigner(mint);
+
+    const builder = createV1(this.umi!, {
+      mint,
+      authority: mintAuthority,
+      payer: createNoopSigner(fromWeb3JsPublicKey(payer)),
+      updateAuthority: request.mutableMetadata
+        ? fromWeb3JsPublicKey(new PublicKey(request.userWallet))
+        : mintAuthority,
+      name: request.name,
+      symbol: request.symbol,
+      uri: metadataUri,
+      sellerFeeBasisPoints: percentAmount(0),
+      isMutable: !!request.mutableMetadata,
+      tokenStandard: TokenStandard.Fungible,
+      splTokenProgram: fromWeb3JsPublicKey(getTokenProgramId(request.tokenProgram)),
+    });
+
+    return builder.getInstructions().map(toWeb3JsInstruction);
+  }
+
+  private resolveTokenAmounts(request: LaunchTokenRequest): TokenAmounts {
+    const decimals =
+      request.decimals === undefined || request.decimals === null
+        ? config.defaultDecimals
+        : Number(request.decimals);
+    const supply = toRawTokenAmount(request.supply || config.defaultSupply, decimals);
+
+    return { decimals, supply };
+  }
+
+  private async uploadTokenMetadata(
+    request: PrepareTokenRequest,
+    amounts: TokenAmounts
+  ): Promise<{ metadataUri: string; imageUrl: string }> {
+    // Handle image upload
+    let imageUrl = request.imageUrl || '';
+    if (request.imageUpload && !imageUrl) {
+      try {
+        logger.info('📷 Uploading image to IPFS...');
+        const imageBuffer = Buffer.from(request.imageUpload, 'base64');
+        imageUrl = await this.ipfsService.uploadImage(imageBuffer, `${request.symbol}_logo.png`);
+        logger.info(`✅ Image uploaded: ${imageUrl}`);
+      } catch (error) {
+        logger.error('❌ Image upload failed:', error);
+        imageUrl = '';
+      }
+    }
+
+    // Create metadata
+    const metadata: MetadataJson = {
+      name: request.name,
+      symbol: request.symbol,
+      description: request.description || `${request.name} - Simple immutable token`,
+      image: imageUrl,
+      external_url: request.website || '',
+      attributes: [
+        { trait_type: 'Platform', value: 'Launchium' },
+        { trait_type: 'Standard', value: getTokenStandardName(request.tokenProgram) },
+        { trait_type: 'Decimals', value: amounts.decimals },
+        { trait_type: 'Supply', value: formatTokenAmount(amounts.supply, amounts.decimals) },
+        { trait_type: 'Immutable', value: request.mutableMetadata ? 'false' : 'true' }
+      ]
+    };
+
+    if (request.launchMode === 'bonding-curve') {
+      metadata.attributes?.push({ trait_type: 'Launch', value: 'Meteora Dynamic Bonding Curve' });
+    }
+
+    for (const extension of describeExtensions(request.extensions)) {
+      metadata.attributes?.push({ trait_type: 'Extension', value: extension });
+    }
+    if (request.allocations?.length) {
+      for (const allocation of this.resolveLaunchAllocations(request, amounts)) {
+        metadata.attributes?.push({
+          trait_type: 'Allocation',
+          value: describeAllocation(allocation, amounts.decimals)
+        });
+      }
+    }
+
+    if (request.website) {
+      metadata.attributes?.push({ trait_type: 'Website', value: request.website });
+    }
+    if (request.twitter) {
+      metadata.attributes?.push({ trait_type: 'Twitter', value: request.twitter });
+    }
+    if (request.telegram) {
+      metadata.attributes?.push({ trait_type: 'Telegram', value: request.telegram });
+    }
+
+    const metadataUri = await this.ipfsService.uploadJson(metadata);
+    logger.info(`📄 Metadata uploaded: ${metadataUri}`);
+
+    return { metadataUri, imageUrl };
   }
 
   getTokenStandards() {
     return {
       decimals: config.defaultDecimals,
       supply: config.defaultSupply.toString(),
-      fee: '0.1 SOL (deducted from platform)',
-      immutable: true,
-      authorities: 'All revoked (mint, freeze, update)',
+      customSupply: {
+        minDecimals: 0,
+        maxDecimals: MAX_TOKEN_DECIMALS,
+        maxRawSupply: U64_MAX.toString(),
+      },
+      tokenPrograms: ['spl', 'token-2022'],
+      token2022Extensions: [
+        'transferFee',
+        'interestBearing',
+        'nonTransferable',
+        'permanentDelegate',
+        'defaultAccountState'
+      ],
+      fee: `${config.launchFeeLamports / LAMPORTS_PER_SOL} SOL (paid by creator)`,
+      feeLamports: config.launchFeeLamports,
+      feeRecipient: config.platformRewardAddress.toBase58(),
+      // Per-launch options decide which authorities survive the launch
+      authorities: {
+        mint: 'Revoked once the supply is minted',
+        freeze: 'Revoked, unless defaultAccountState is frozen, which leaves it with the creator',
+        update: 'Revoked, unless mutableMetadata is set, which leaves it with the creator',
+        permanentDelegate: 'None, unless the permanentDelegate extension makes the creator one'
+      },
+      mutableMetadata: 'Optional, immutable by default',
       supportedFormats: ['PNG', 'JPG', 'JPEG', 'GIF'],
       maxImageSize: '5MB'
     };
   }
 
-  async getLaunchStatistics() {
+  async getLaunchStatistics(): Promise<LaunchStatisticsResponse> {
+    return summarizeLaunches(await this.launchLedger.list());
+  }
+
+  async getLaunchesByWallet(
+    wallet: string,
+    options: WalletLaunchQuery = {}
+  ): Promise<WalletLaunchesResponse> {
+    const { page = 1, limit = 20, sort = 'createdAt', order = 'desc', status } = options;
+
+    const launches = collectWalletLaunches(await this.launchLedger.list(), wallet)
+      .filter((launch) => !status || launch.status === status)
+      .sort((a, b) => {
+        const compared =
+          sort === 'name' || sort === 'symbol'
+            ? a[sort].localeCompare(b[sort])
+            : a[sort] - b[sort];
+        return order === 'asc' ? compared : -compared;
+      });
+
     return {
-      totalTokensLaunched: 0,
-      averageLaunchTime: '10-15 seconds',
-      successRate: '99.9%',
-      fee: '0.1 SOL per token',
-      immutability: 'Full (all authorities revoked)'
+      wallet,
+      launches: launches.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total: launches.length,
+        totalPages: Math.ceil(launches.length / limit)
+      }
     };
   }
-}
\ No newline at end of file
+}
+
+const sharedServices = new Map<SolanaCluster, TokenService>();
+
+// One service per cluster, all sharing the session store and launch ledger
+export function getTokenService(cluster?: string): TokenService {
+  return getClusterInstance(sharedServices, cluster, (resolved) => new TokenService(resolved));
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  Connection,
+  Keypair,
+  SendTransactionError,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { TransactionSender, classifySendError } from './TransactionSender';
+import { TransactionError } from '../utils/errors';
+import { getTransactionSignature } from '../utils/transaction';
+
+function simulationError(transactionMessage: string, logs?: string[]): SendTransactionError {
+  return new SendTransactionError({ action: 'simulate', signature: '', transactionMessage, logs });
+}
+
+function signedTransaction(): VersionedTransaction {
+  const payer = Keypair.generate();
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [
+        SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 })
+      ]
+    }).compileToV0Message()
+  );
+  transaction.sign([payer]);
+  return transaction;
+}
+
+describe('classifySendError', () => {
+  it('treats simulation failures with logs as rejections', () => {
+    const error = simulationError('Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1', [
+      'Program log: Error: insufficient funds'
+    ]);
+    expect(classifySendError(error)).toBe('rejected');
+  });
+
+  it('treats a simulation failure without logs as a rejection', () => {
+    const error = simulationError('Transaction simulation failed: Attempt to debit an account but found no record of a prior credit.');
+    expect(classifySendError(error)).toBe('rejected');
+  });
+
+  it('recognizes an unknown blockhash as expired', () => {
+    expect(classifySendError(simulationError('Transaction simulation failed: Blockhash not found', []))).toBe('expired');
+  });
+
+  it('treats network errors, HTTP failures and other RPC errors as transport failures', () => {
+    expect(classifySendError(new TypeError('fetch failed'))).toBe('transport');
+    expect(classifySendError(new Error('429 Too Many Requests: {"message":"rate limited"}'))).toBe('transport');
+    expect(classifySendError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe('transport');
+    expect(classifySendError(simulationError('Node is behind by 42 slots'))).toBe('transport');
+  });
+});
+
+describe('TransactionSender.sendAndConfirm', () => {
+  it('keeps waiting for a transaction whose send was dropped in transit', async () => {
+    const transaction = signedTransaction();
+    const connection = {
+      sendRawTransaction: vi.fn().mockRejectedValue(new TypeError('fetch failed')),
+      getSignatureStatuses: vi.fn().mockResolvedValue({ value: [{ err: null, confirmationStatus: 'confirmed' }] }),
+      getBlockHeight: vi.fn()
+    };
+
+    const sender = new TransactionSender(connection as unknown as Connection);
+    await expect(sender.sendAndConfirm(transaction, 100)).resolves.toBe(getTransactionSignature(transaction));
+  });
+
+  it('reports an unreachable RPC as a retryable timeout rather than a rejection', async () => {
+    const connection = {
+      sendRawTransaction: vi.fn().mockRejectedValue(new TypeError('fetch failed')),
+      getSignatureStatuses: vi.fn().mockRejectedValue(new TypeError('fetch failed')),
+      getBlockHeight: vi.fn().mockRejectedValue(new TypeError('fetch failed'))
+    };
+
+    const sender = new TransactionSender(connection as unknown as Connection);
+    const error = await sender.sendAndConfirm(signedTransaction(), 100, 0).catch((thrown) => thrown);
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error).toMatchObject({ code: 'TRANSACTION_TIMEOUT', statusCode: 504 });
+  });
+
+  it('rejects a transaction that fails simulation with its logs', async () => {
+    const connection = {
+      sendRawTransaction: vi.fn().mockRejectedValue(
+        simulationError('Transaction simulation failed: custom program error: 0x1', ['Program log: failed'])
+      ),
+      getSignatureStatuses: vi.fn(),
+      getBlockHeight: vi.fn()
+    };
+
+    const sender = new TransactionSender(connection as unknown as Connection);
+    const error = await sender.sendAndConfirm(signedTransaction(), 100).catch((thrown) => thrown);
+    expect(error).toMatchObject({ code: 'TRANSACTION_SIMULATION_FAILED', statusCode: 400, logs: ['Program log: failed'] });
+    expect(connection.getSignatureStatuses).not.toHaveBeenCalled();
+  });
+});
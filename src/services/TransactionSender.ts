@@ -0,0 +1,196 @@
+import {
+  BlockhashWithExpiryBlockHeight,
+  Connection,
+  SendTransactionError,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { config } from '../config/index';
+import { createLogger } from '../utils/logger';
+import { TransactionError } from '../utils/errors';
+import { getTransactionSignature } from '../utils/transaction';
+
+const logger = createLogger('TransactionSender');
+
+// How often an unconfirmed transaction is re-sent while its blockhash is valid
+const REBROADCAST_INTERVAL_MS = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type SendErrorKind = 'expired' | 'rejected' | 'transport';
+
+/**
+ * Sorts a failed preflight send. Only an RPC answer carrying simulation logs
+ * or a simulation error is a rejection; network errors, rate limits and
+ * other RPC failures say nothing about whether the transaction reached a leader.
+ */
+export function classifySendError(error: unknown): SendErrorKind {
+  if (!(error instanceof SendTransactionError)) return 'transport';
+
+  const message = error.transactionError.message ?? '';
+  if (/blockhash not found/i.test(message)) return 'expired';
+  if (Array.isArray(error.transactionError.logs) || /simulation failed/i.test(message)) return 'rejected';
+  return 'transport';
+}
+
+/**
+ * Sends signed transactions and waits for confirmation. The raw transaction is
+ * rebroadcast until it is confirmed, its blockhash expires (tracked through
+ * lastValidBlockHeight) or config.confirmationTimeout elapses.
+ */
+export class TransactionSender {
+  constructor(private connection: Connection) {}
+
+  /**
+   * Sends a transaction that cannot be re-signed (e.g. one signed by the user).
+   * Throws a TransactionError with program logs if it fails simulation or on-chain.
+   */
+  async sendAndConfirm(
+    transaction: VersionedTransaction,
+    lastValidBlockHeight: number,
+    timeoutMs: number = config.confirmationTimeout
+  ): Promise<string> {
+    const signature = getTransactionSignature(transaction);
+    const rawTransaction = transaction.serialize();
+    const deadline = Date.now() + timeoutMs;
+
+    // The first send runs preflight so a failing transaction is reported with its logs
+    await this.sendWithPreflight(rawTransaction, signature);
+    logger.info(`📤 Sent ${signature}, valid until block ${lastValidBlockHeight}`);
+
+    while (Date.now() < deadline) {
+      let blockHeight: number;
+      try {
+        if (await this.isConfirmed(signature)) {
+          return signature;
+        }
+        blockHeight = await this.connection.getBlockHeight('confirmed');
+      } catch (error) {
+        if (error instanceof TransactionError) throw error;
+        // The transaction may still land, so an unreachable RPC only delays the next check
+        logger.warn(`Status check of ${signature} failed:`, error);
+        await sleep(REBROADCAST_INTERVAL_MS);
+        continue;
+      }
+
+      if (blockHeight > lastValidBlockHeight) {
+        // It may have landed in the last valid block
+        if (await this.isConfirmed(signature)) {
+          return signature;
+        }
+        throw new TransactionError(
+          `Transaction ${signature} expired before it was confirmed`,
+          'TRANSACTION_EXPIRED',
+          signature,
+          [],
+          409
+        );
+      }
+
+      await sleep(REBROADCAST_INTERVAL_MS);
+      await this.connection
+        .sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+        .catch((error) => logger.warn(`Rebroadcast of ${signature} failed:`, error));
+    }
+
+    throw new TransactionError(
+      `Transaction ${signature} was not confirmed within ${timeoutMs}ms`,
+      'TRANSACTION_TIMEOUT',
+      signature,
+      [],
+      504
+    );
+  }
+
+  /**
+   * Sends a transaction we can sign ourselves. If the blockhash expires before
+   * it lands, it is rebuilt with a fresh one until config.transactionTimeout.
+   */
+  async sendWithRetry(
+    build: (blockhash: BlockhashWithExpiryBlockHeight) => VersionedTransaction
+  ): Promise<string> {
+    const deadline = Date.now() + config.transactionTimeout;
+
+    for (;;) {
+      const latestBlockhash = await this.connection.getLatestBlockhash('confirmed');
+      const remaining = deadline - Date.now();
+
+      try {
+        return await this.sendAndConfirm(
+          build(latestBlockhash),
+          latestBlockhash.lastValidBlockHeight,
+          Math.max(Math.min(config.confirmationTimeout, remaining), 0)
+        );
+      } catch (error) {
+        // An expired blockhash guarantees the old transaction can no longer land
+        if (
+          error instanceof TransactionError &&
+          error.code === 'TRANSACTION_EXPIRED' &&
+          deadline - Date.now() > 0
+        ) {
+          logger.warn('⏳ Blockhash expired, retrying with a fresh one...');
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  // A send that fails in transit is left to the rebroadcast loop, since it may have reached a leader
+  private async sendWithPreflight(rawTransaction: Uint8Array, signature: string): Promise<void> {
+    try {
+      await this.connection.sendRawTransaction(rawTransaction, {
+        preflightCommitment: 'confirmed',
+        maxRetries: 0
+      });
+    } catch (error) {
+      const kind = classifySendError(error);
+      if (kind === 'transport') {
+        logger.warn(`Send of ${signature} failed in transit, waiting for it to land:`, error);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const logs =
+        error instanceof SendTransactionError
+          ? (error.logs ?? (await error.getLogs(this.connection).catch(() => [])))
+          : [];
+
+      if (kind === 'expired') {
+        throw new TransactionError(
+          `Transaction ${signature} expired before it was sent`,
+          'TRANSACTION_EXPIRED',
+          signature,
+          logs,
+          409
+        );
+      }
+      logger.error(`❌ Simulation failed for ${signature}:`, logs);
+      throw new TransactionError(
+        `Transaction simulation failed: ${message}`,
+        'TRANSACTION_SIMULATION_FAILED',
+        signature,
+        logs
+      );
+    }
+  }
+
+  // Confirmed without error; a failed transaction throws with its logs
+  private async isConfirmed(signature: string): Promise<boolean> {
+    const { value: [status] } = await this.connection.getSignatureStatuses([signature]);
+    if (!status) return false;
+
+    if (status.err) {
+      const details = await this.connection
+        .getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 })
+        .catch(() => null);
+      throw new TransactionError(
+        `Transaction ${signature} failed: ${JSON.stringify(status.err)}`,
+        'TRANSACTION_FAILED',
+        signature,
+        details?.meta?.logMessages ?? []
+      );
+    }
+
+    return status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized';
+  }
+}
@@ -0,0 +1,271 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { Keypair } from '@solana/web3.js';
+import { config } from '../config/index';
+import { VanityEstimate, VanityOptions, VanityResult } from '../models/index';
+import { ApiError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import {
+  getExpectedAttempts,
+  matchesVanity,
+  normalizeVanityOptions,
+  validateVanityOptions
+} from '../utils/vanity';
+import type { VanityWorkerMessage, VanityWorkerRequest } from '../workers/vanityWorker';
+
+const logger = createLogger('VanityService');
+
+// Rate assumed per worker until grinding has been measured
+const DEFAULT_KEYS_PER_SECOND_PER_WORKER = 4_000;
+// Fewer attempts than this are dominated by worker warm-up
+const MIN_MEASURED_ATTEMPTS = 2_000;
+
+// Same extension as this file, so `npm run dev` (tsx) runs the TypeScript worker
+const WORKER_PATH = path.join(__dirname, '..', 'workers', `vanityWorker${path.extname(__filename)}`);
+
+interface GrindJob {
+  id: number;
+  vanity: Required<VanityOptions>;
+  background: boolean; // pool refill, preempted by any request
+  attempts: number;
+  resolve: (found: { keypair: Keypair; attempts: number }) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Grinds vanity mint keypairs on a worker_threads pool. Every worker works
+ * on the same job, one job at a time in request order. While idle, the pool
+ * pre-grinds keypairs for config.vanityDefaultSuffix; those are kept in
+ * memory only and handed out first.
+ */
+export class VanityService {
+  private workers: Worker[] = [];
+  private queue: GrindJob[] = [];
+  private active: GrindJob | null = null;
+  private pool: Keypair[] = [];
+  private defaultVanity: Required<VanityOptions> | null = null;
+  private nextJobId = 1;
+  private measuredAttempts = 0;
+  private measuredMs = 0;
+
+  constructor() {
+    if (config.vanityDefaultSuffix) {
+      try {
+        validateVanityOptions({ suffix: config.vanityDefaultSuffix }, config.vanityMaxLength);
+        this.defaultVanity = normalizeVanityOptions({ suffix: config.vanityDefaultSuffix });
+      } catch (error) {
+        logger.warn(`VANITY_DEFAULT_SUFFIX ignored: ${(error as Error).message}`);
+      }
+    }
+    this.refillPool();
+  }
+
+  // Pre-ground keypair if one matches, otherwise grinds until the timeout
+  async getKeypair(
+    vanity: VanityOptions,
+    timeoutMs: number = config.vanityTimeoutMs
+  ): Promise<{ keypair: Keypair; result: VanityResult }> {
+    validateVanityOptions(vanity, config.vanityMaxLength);
+    const options = normalizeVanityOptions(vanity);
+    const startedAt = Date.now();
+
+    const pooledIndex = this.pool.findIndex((keypair) => matchesVanity(keypair.publicKey.toBase58(), options));
+    if (pooledIndex >= 0) {
+      const [keypair] = this.pool.splice(pooledIndex, 1);
+      logger.info(`🎯 Vanity mint ${keypair.publicKey.toBase58()} taken from pool (${this.pool.length} left)`);
+      this.refillPool();
+      return { keypair, result: { ...options, attempts: 0, durationMs: Date.now() - startedAt, pooled: true } };
+    }
+
+    logger.info(`⛏️ Grinding mint address (prefix "${options.prefix}", suffix "${options.suffix}")`);
+    const { keypair, attempts } = await this.grind(options, timeoutMs);
+    const durationMs = Date.now() - startedAt;
+    logger.info(`✅ Vanity mint ${keypair.publicKey.toBase58()} after ${attempts} attempts in ${durationMs}ms`);
+
+    return { keypair, result: { ...options, attempts, durationMs, pooled: false } };
+  }
+
+  estimate(vanity: VanityOptions, timeoutMs: number = config.vanityTimeoutMs): VanityEstimate {
+    try {
+      validateVanityOptions(vanity, config.vanityMaxLength);
+    } catch (error) {
+      throw new ApiError((error as Error).message, 'INVALID_VANITY_PATTERN');
+    }
+    const options = normalizeVanityOptions(vanity);
+    const expectedAttempts = getExpectedAttempts(options);
+    const keysPerSecond = this.getKeysPerSecond();
+
+    return {
+      ...options,
+      expectedAttempts,
+      keysPerSecond,
+      estimatedSeconds: Math.ceil(expectedAttempts / keysPerSecond),
+      timeoutMs,
+      // Each attempt is an independent trial, so waiting times are exponential
+      probabilityWithinTimeout: 1 - Math.exp(-(keysPerSecond * (timeoutMs / 1000)) / expectedAttempts),
+      pooled: this.pool.filter((keypair) => matchesVanity(keypair.publicKey.toBase58(), options)).length
+    };
+  }
+
+  private grind(
+    vanity: Required<VanityOptions>,
+    timeoutMs: number
+  ): Promise<{ keypair: Keypair; attempts: number }> {
+    return new Promise((resolve, reject) => {
+      const job: GrindJob = {
+        id: this.nextJobId++,
+        vanity,
+        background: false,
+        attempts: 0,
+        resolve: (found) => {
+          clearTimeout(timer);
+          resolve(found);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        this.finishJob(job);
+        reject(
+          new ApiError(
+            `No mint address matching the vanity pattern was found within ${timeoutMs / 1000}s`,
+            'VANITY_TIMEOUT',
+            504
+          )
+        );
+      }, timeoutMs);
+      timer.unref();
+
+      this.queue.push(job);
+      if (this.active?.background) {
+        this.finishJob(this.active);
+      } else {
+        this.startNext();
+      }
+    });
+  }
+
+  // Grinds one pooled keypair at a time while no request is waiting
+  private refillPool(): void {
+    if (!this.defaultVanity || this.active || this.queue.length > 0) return;
+    if (this.pool.length >= config.vanityPoolSize) return;
+
+    const job: GrindJob = {
+      id: this.nextJobId++,
+      vanity: this.defaultVanity,
+      background: true,
+      attempts: 0,
+      resolve: ({ keypair }) => {
+        this.pool.push(keypair);
+        logger.info(`🎯 Pre-ground ${keypair.publicKey.toBase58()} (${this.pool.length}/${config.vanityPoolSize})`);
+      },
+      reject: (error) => {
+        // A pool that cannot grind would otherwise restart forever
+        logger.error('❌ Vanity pool refill stopped:', error);
+        this.defaultVanity = null;
+      }
+    };
+    this.queue.push(job);
+    this.startNext();
+  }
+
+  private startNext(): void {
+    if (this.active) return;
+
+    const job = this.queue.shift();
+    if (!job) {
+      this.refillPool();
+      return;
+    }
+
+    this.active = job;
+    const request: VanityWorkerRequest = { type: 'start', jobId: job.id, ...job.vanity };
+    for (const worker of this.getWorkers()) {
+      worker.postMessage(request);
+    }
+  }
+
+  // Stops a job whether it is running or still queued, then starts the next one
+  private finishJob(job: GrindJob): void {
+    this.queue = this.queue.filter((queued) => queued !== job);
+    if (this.active !== job) return;
+
+    const request: VanityWorkerRequest = { type: 'stop', jobId: job.id };
+    for (const worker of this.workers) {
+      worker.postMessage(request);
+    }
+    this.active = null;
+    this.startNext();
+  }
+
+  private handleMessage(message: VanityWorkerMessage): void {
+    const job = this.active;
+    // Late progress from a job that was already stopped
+    if (!job || job.id !== message.jobId) return;
+
+    job.attempts += message.attempts;
+    this.measuredAttempts += message.attempts;
+    this.measuredMs += message.durationMs;
+    if (message.type !== 'found') return;
+
+    const keypair = Keypair.fromSecretKey(message.secretKey);
+    if (!matchesVanity(keypair.publicKey.toBase58(), job.vanity)) {
+      logger.warn(`Worker returned ${keypair.publicKey.toBase58()}, which does not match; ignoring`);
+      return;
+    }
+
+    // Resolve first so a refilled pool is counted before the next job is chosen
+    job.resolve({ keypair, attempts: job.attempts });
+    this.finishJob(job);
+  }
+
+  private getWorkers(): Worker[] {
+    while (this.workers.length < Math.max(config.vanityWorkers, 1)) {
+      const worker = this.createWorker();
+      worker.on('message', (message: VanityWorkerMessage) => this.handleMessage(message));
+      worker.on('error', (error) => {
+        logger.error('❌ Vanity worker failed:', error);
+        this.workers = this.workers.filter((existing) => existing !== worker);
+        const job = this.active;
+        if (job && this.workers.length === 0) {
+          this.finishJob(job);
+          job.reject(error);
+        }
+      });
+      // Idle workers must not keep the process alive
+      worker.unref();
+      this.workers.push(worker);
+    }
+    return this.workers;
+  }
+
+  // Workers do not inherit tsx's loader, so TypeScript sources register it themselves
+  private createWorker(): Worker {
+    if (WORKER_PATH.endsWith('.ts')) {
+      return new Worker(`require('tsx/cjs'); require(${JSON.stringify(WORKER_PATH)});`, { eval: true });
+    }
+    return new Worker(WORKER_PATH);
+  }
+
+  // Measured per worker, scaled to the whole pool
+  private getKeysPerSecond(): number {
+    const workers = Math.max(config.vanityWorkers, 1);
+    if (this.measuredAttempts < MIN_MEASURED_ATTEMPTS) {
+      return DEFAULT_KEYS_PER_SECOND_PER_WORKER * workers;
+    }
+    return Math.round((this.measuredAttempts / this.measuredMs) * 1000 * workers);
+  }
+}
+
+let sharedService: VanityService | null = null;
+
+// One worker pool per process
+export function getVanityService(): VanityService {
+  if (!sharedService) {
+    sharedService = new VanityService();
+  }
+  return sharedService;
+}
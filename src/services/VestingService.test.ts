@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountInfo, Keypair, PublicKey } from '@solana/web3.js';
+import { ACCOUNT_SIZE, AccountLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { config } from '../config/index';
+import { VESTING_MINT_OFFSET, getVestingAddresses } from '../utils/vestingProgram';
+import { VestingService } from './VestingService';
+
+const connection = vi.hoisted(() => ({
+  getProgramAccounts: vi.fn(),
+  getMultipleAccountsInfo: vi.fn()
+}));
+vi.mock('./RpcPool', () => ({ getRpcPool: () => ({ connection }) }));
+
+function vestingAccountData(mint: PublicKey, destination: PublicKey): Buffer {
+  const data = Buffer.alloc(65 + 16);
+  destination.toBuffer().copy(data, 0);
+  mint.toBuffer().copy(data, VESTING_MINT_OFFSET);
+  data[64] = 1;
+  data.writeBigUInt64LE(1n, 65);
+  data.writeBigUInt64LE(1_000n, 73);
+  return data;
+}
+
+function tokenAccountInfo(mint: PublicKey, owner: PublicKey): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner,
+      amount: 0n,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: 1,
+      isNativeOption: 0,
+      isNative: 0n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default
+    },
+    data
+  );
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+describe('VestingService.getVesting', () => {
+  const mint = Keypair.generate().publicKey;
+  const destinations = [Keypair.generate().publicKey, Keypair.generate().publicKey, Keypair.generate().publicKey];
+  const recipient = Keypair.generate().publicKey;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    connection.getProgramAccounts.mockResolvedValue(
+      destinations.map((destination) => ({
+        pubkey: getVestingAddresses(mint, destination).vestingAccount,
+        account: { data: vestingAccountData(mint, destination), owner: config.vestingProgramId }
+      }))
+    );
+  });
+
+  it('reports no recipient for a destination that is missing or no longer a token account', async () => {
+    connection.getMultipleAccountsInfo.mockResolvedValue([
+      tokenAccountInfo(mint, recipient),
+      null,
+      { data: Buffer.alloc(8), owner: Keypair.generate().publicKey, lamports: 1, executable: false }
+    ]);
+
+    const { contracts } = await new VestingService().getVesting(mint.toBase58());
+
+    expect(contracts.map((contract) => contract.recipient)).toEqual([recipient.toBase58(), null, null]);
+  });
+});
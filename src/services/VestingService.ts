@@ -0,0 +1,189 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount
+} from '@solana/spl-token';
+import { config } from '../config/index';
+import {
+  SolanaCluster,
+  TokenVestingResponse,
+  TransactionVersionOption,
+  VestingClaimResponse,
+  VestingContractInfo
+} from '../models/index';
+import { PriorityFeeService } from './PriorityFeeService';
+import { getRpcPool } from './RpcPool';
+import { getClusterInstance } from '../utils/cluster';
+import { ApiError } from '../utils/errors';
+import { getExplorerUrl } from '../utils/explorer';
+import { createLogger } from '../utils/logger';
+import { buildTransaction, serializeUnsignedTransaction } from '../utils/transaction';
+import {
+  VESTING_MINT_OFFSET,
+  VestingAccountData,
+  createVestingUnlockInstruction,
+  decodeVestingAccount,
+  getVestingAddresses
+} from '../utils/vestingProgram';
+
+const logger = createLogger('VestingService');
+
+// Reads launch vesting escrows and builds claim transactions for recipients
+export class VestingService {
+  private cluster: SolanaCluster;
+  private connection: Connection;
+  private priorityFeeService: PriorityFeeService;
+
+  constructor(cluster: SolanaCluster = config.cluster) {
+    this.cluster = cluster;
+    this.connection = getRpcPool(cluster).connection;
+    this.priorityFeeService = new PriorityFeeService(this.connection);
+  }
+
+  /**
+   * Lists every vesting contract for a mint that was created by a launch,
+   * with what is still locked and what can be claimed now.
+   */
+  async getVesting(mintAddress: string): Promise<TokenVestingResponse> {
+    logger.info(`🔐 Fetching vesting for ${mintAddress}`);
+    const mint = new PublicKey(mintAddress);
+
+    const accounts = await this.connection.getProgramAccounts(config.vestingProgramId, {
+      commitment: 'confirmed',
+      filters: [{ memcmp: { offset: VESTING_MINT_OFFSET, bytes: mint.toBase58() } }]
+    });
+
+    const contracts: Array<{ address: PublicKey; data: VestingAccountData }> = [];
+    for (const { pubkey, account } of accounts) {
+      try {
+        const data = decodeVestingAccount(account.data);
+        // Only contracts using our seed derivation can be claimed through this API
+        const addresses = getVestingAddresses(mint, data.destinationTokenAccount);
+        if (data.isInitialized && addresses.vestingAccount.equals(pubkey)) {
+          contracts.push({ address: pubkey, data });
+        }
+      } catch {
+        // Not a vesting account layout
+      }
+    }
+
+    // Recipients are the owners of the destination token accounts
+    const destinationInfos = await this.connection.getMultipleAccountsInfo(
+      contracts.map((contract) => contract.data.destinationTokenAccount)
+    );
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      mintAddress,
+      cluster: this.cluster,
+      programId: config.vestingProgramId.toBase58(),
+      contracts: contracts.map(({ address, data }, index): VestingContractInfo => {
+        const destinationInfo = destinationInfos[index];
+        return {
+          vestingAccount: address.toBase58(),
+          vestingTokenAccount: getVestingAddresses(mint, data.destinationTokenAccount).vestingTokenAccount.toBase58(),
+          destinationTokenAccount: data.destinationTokenAccount.toBase58(),
+          recipient: destinationInfo ? this.getRecipient(data.destinationTokenAccount, destinationInfo) : null,
+          explorerUrl: getExplorerUrl('address', address.toBase58(), this.cluster),
+          ...this.summarizeReleases(data, now)
+        };
+      })
+    };
+  }
+
+  // A destination account that was closed and reused by another program has no owner to report
+  private getRecipient(address: PublicKey, info: AccountInfo<Buffer>): string | null {
+    try {
+      return unpackAccount(address, info).owner.toBase58();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Unsigned transaction, paid by the recipient, that creates their token
+   * account if needed and unlocks every release that is due.
+   */
+  async buildClaimTransaction(
+    mintAddress: string,
+    wallet: string,
+    transactionVersion: TransactionVersionOption = 'legacy'
+  ): Promise<VestingClaimResponse> {
+    const mint = new PublicKey(mintAddress);
+    const recipient = new PublicKey(wallet);
+    const destinationTokenAccount = getAssociatedTokenAddressSync(mint, recipient, true);
+    const addresses = getVestingAddresses(mint, destinationTokenAccount);
+
+    const vestingInfo = await this.connection.getAccountInfo(addresses.vestingAccount, 'confirmed');
+    if (!vestingInfo || !vestingInfo.owner.equals(config.vestingProgramId)) {
+      throw new ApiError(`No vesting for ${wallet} on ${mintAddress}`, 'VESTING_NOT_FOUND', 404);
+    }
+
+    const { claimableAmount } = this.summarizeReleases(
+      decodeVestingAccount(vestingInfo.data),
+      Math.floor(Date.now() / 1000)
+    );
+    if (claimableAmount === '0') {
+      throw new ApiError('Nothing to claim yet', 'NOTHING_TO_CLAIM', 409);
+    }
+
+    const instructions = [
+      createAssociatedTokenAccountIdempotentInstruction(recipient, destinationTokenAccount, recipient, mint),
+      createVestingUnlockInstruction(addresses, destinationTokenAccount)
+    ];
+    const priorityFee = await this.priorityFeeService.getPriorityFee(instructions, recipient);
+    const { blockhash } = await this.connection.getLatestBlockhash('confirmed');
+    const transaction = buildTransaction(
+      [...this.priorityFeeService.createComputeBudgetInstructions(priorityFee), ...instructions],
+      recipient,
+      blockhash,
+      transactionVersion
+    );
+
+    logger.info(`📝 Claim of ${claimableAmount} prepared for ${wallet}`);
+
+    return {
+      mintAddress,
+      vestingAccount: addresses.vestingAccount.toBase58(),
+      claimableAmount,
+      transactionVersion,
+      transaction: serializeUnsignedTransaction(transaction)
+    };
+  }
+
+  // Claimed releases have their amount zeroed by the program
+  private summarizeReleases(data: VestingAccountData, now: number) {
+    let locked = 0n;
+    let claimable = 0n;
+    let nextReleaseTime: number | null = null;
+
+    for (const release of data.releases) {
+      const releaseTime = Number(release.releaseTime);
+      if (releaseTime <= now) {
+        claimable += release.amount;
+      } else {
+        locked += release.amount;
+        if (release.amount > 0n && (nextReleaseTime === null || releaseTime < nextReleaseTime)) {
+          nextReleaseTime = releaseTime;
+        }
+      }
+    }
+
+    return {
+      lockedAmount: locked.toString(),
+      claimableAmount: claimable.toString(),
+      nextReleaseTime,
+      schedule: data.releases.map((release) => ({
+        releaseTime: Number(release.releaseTime),
+        amount: release.amount.toString()
+      }))
+    };
+  }
+}
+
+const sharedServices = new Map<SolanaCluster, VestingService>();
+
+export function getVestingService(cluster?: string): VestingService {
+  return getClusterInstance(sharedServices, cluster, (resolved) => new VestingService(resolved));
+}
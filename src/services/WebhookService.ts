@@ -0,0 +1,319 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/index';
+import {
+  ImageUploadedData,
+  LaunchRecord,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookRequest,
+  WebhookResponse
+} from '../models/index';
+import { WebhookStore, getWebhookStore } from './WebhookStore';
+import { signWebhookPayload } from '../utils/crypto';
+import { ApiError } from '../utils/errors';
+import { assertPublicUrl, publicDispatcher } from '../utils/network';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('WebhookService');
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'launch.prepared',
+  'launch.completed',
+  'launch.failed',
+  'image.uploaded'
+];
+
+// Deliveries to config.webhookUrls, signed with config.webhookSecret
+const CONFIG_WEBHOOK_ID = 'config';
+
+export interface WebhookDeliveryQuery {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+// Deliveries to config.webhookUrls carry no owner and only operators see them
+function isVisibleDelivery(delivery: WebhookDelivery, owner: string, isOperator: boolean): boolean {
+  return delivery.owner ? delivery.owner === owner : isOperator;
+}
+
+function toWebhookResponse({ owner: _owner, secret: _secret, ...webhook }: Webhook): WebhookResponse {
+  return webhook;
+}
+
+/**
+ * Delivers lifecycle events to config.webhookUrls and to webhooks registered
+ * with an API key. Each delivery is a signed POST, retried with exponential
+ * backoff until it gets a 2xx answer or runs out of attempts, and kept in a
+ * delivery log that can be replayed.
+ */
+export class WebhookService {
+  private store: WebhookStore;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(store: WebhookStore = getWebhookStore()) {
+    this.store = store;
+  }
+
+  // Ledger records of launches; a failed prepare never produced a session, so it is not an event
+  emitLaunch(record: LaunchRecord): void {
+    if (record.operation === 'prepare') {
+      if (record.outcome === 'success') this.emit('launch.prepared', record);
+      return;
+    }
+    this.emit(record.outcome === 'success' ? 'launch.completed' : 'launch.failed', record);
+  }
+
+  // Never throws; delivery problems only show up in the log
+  emit(event: WebhookEvent, data: LaunchRecord | ImageUploadedData): void {
+    this.dispatch({ id: uuidv4(), event, createdAt: Date.now(), data }).catch((error) =>
+      logger.error(`Failed to queue ${event} webhooks:`, error)
+    );
+  }
+
+  // Registered URLs must be https on a public host; only config.webhookUrls may point inside
+  async registerWebhook(owner: string, request: WebhookRequest): Promise<WebhookResponse> {
+    await assertPublicUrl(request.url);
+    const webhook: Webhook = {
+      id: uuidv4(),
+      url: request.url,
+      events: request.events?.length ? [...new Set(request.events)] : WEBHOOK_EVENTS,
+      description: request.description,
+      owner,
+      secret: `whsec_${randomBytes(32).toString('hex')}`,
+      createdAt: Date.now()
+    };
+    await this.store.saveWebhook(webhook);
+    logger.info(`🪝 Webhook ${webhook.id} registered for ${webhook.events.join(', ')}`);
+
+    return { ...toWebhookResponse(webhook), secret: webhook.secret };
+  }
+
+  async listWebhooks(owner: string): Promise<WebhookResponse[]> {
+    const webhooks = await this.store.listWebhooks();
+    return webhooks.filter((webhook) => webhook.owner === owner).map(toWebhookResponse);
+  }
+
+  async deleteWebhook(owner: string, webhookId: string): Promise<void> {
+    await this.getOwnWebhook(owner, webhookId);
+    await this.store.deleteWebhook(webhookId);
+    logger.info(`🗑️ Webhook ${webhookId} deleted`);
+  }
+
+  // Newest first: the owner's deliveries, plus those to config.webhookUrls for operators
+  async listDeliveries(
+    owner: string,
+    query: WebhookDeliveryQuery = {},
+    isOperator = false
+  ): Promise<WebhookDelivery[]> {
+    const deliveries = await this.pruneDeliveries(await this.store.listDeliveries());
+    return deliveries
+      .filter((delivery) => isVisibleDelivery(delivery, owner, isOperator))
+      .filter((delivery) => !query.webhookId || delivery.webhookId === query.webhookId)
+      .filter((delivery) => !query.status || delivery.status === query.status)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, query.limit ?? 50);
+  }
+
+  async getDelivery(owner: string, deliveryId: string, isOperator = false): Promise<WebhookDelivery> {
+    const delivery = await this.store.getDelivery(deliveryId);
+    if (!delivery || !isVisibleDelivery(delivery, owner, isOperator)) {
+      throw new ApiError(`Delivery ${deliveryId} not found`, 'WEBHOOK_DELIVERY_NOT_FOUND', 404);
+    }
+    return delivery;
+  }
+
+  // Sends the same event again as a new delivery, to the webhook's current URL
+  async replayDelivery(owner: string, deliveryId: string, isOperator = false): Promise<WebhookDelivery> {
+    const original = await this.getDelivery(owner, deliveryId, isOperator);
+    const url =
+      original.webhookId === CONFIG_WEBHOOK_ID
+        ? original.url
+        : (await this.getOwnWebhook(owner, original.webhookId)).url;
+
+    const replay = {
+      ...this.createDelivery(original.payload, original.webhookId, url, original.owner),
+      replayOf: deliveryId
+    };
+    logger.info(`🔁 Replaying delivery ${deliveryId} as ${replay.id}`);
+    await this.store.saveDelivery(replay);
+    this.schedule(replay.id, 0);
+    return replay;
+  }
+
+  // Deliveries still pending when the process stopped continue on their schedule
+  async resumePendingDeliveries(): Promise<number> {
+    const pending = (await this.store.listDeliveries()).filter((delivery) => delivery.status === 'pending');
+    for (const delivery of pending) {
+      this.schedule(delivery.id, Math.max((delivery.nextAttemptAt ?? 0) - Date.now(), 0));
+    }
+    if (pending.length > 0) {
+      logger.info(`🪝 Resumed ${pending.length} pending webhook deliveries`);
+    }
+    return pending.length;
+  }
+
+  private async dispatch(payload: WebhookPayload): Promise<void> {
+    const webhooks = (await this.store.listWebhooks()).filter((webhook) =>
+      webhook.events.includes(payload.event)
+    );
+    const targets = [
+      ...config.webhookUrls.map((url) => ({ webhookId: CONFIG_WEBHOOK_ID, url, owner: undefined })),
+      ...webhooks.map((webhook) => ({ webhookId: webhook.id, url: webhook.url, owner: webhook.owner }))
+    ];
+
+    for (const target of targets) {
+      const delivery = this.createDelivery(payload, target.webhookId, target.url, target.owner);
+      await this.store.saveDelivery(delivery);
+      this.schedule(delivery.id, 0);
+    }
+  }
+
+  private createDelivery(
+    payload: WebhookPayload,
+    webhookId: string,
+    url: string,
+    owner?: string
+  ): WebhookDelivery {
+    const now = Date.now();
+    return {
+      id: uuidv4(),
+      webhookId,
+      owner,
+      url,
+      event: payload.event,
+      payload,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private schedule(deliveryId: string, delayMs: number): void {
+    clearTimeout(this.timers.get(deliveryId));
+    const timer = setTimeout(() => {
+      this.timers.delete(deliveryId);
+      this.attempt(deliveryId).catch((error) =>
+        logger.error(`Webhook delivery ${deliveryId} could not be attempted:`, error)
+      );
+    }, delayMs);
+    timer.unref();
+    this.timers.set(deliveryId, timer);
+  }
+
+  private async attempt(deliveryId: string): Promise<void> {
+    const delivery = await this.store.getDelivery(deliveryId);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    const secret = await this.getSecret(delivery);
+    if (secret === null) {
+      await this.store.saveDelivery({
+        ...delivery,
+        status: 'failed',
+        nextAttemptAt: undefined,
+        updatedAt: Date.now()
+      });
+      logger.warn(`Webhook ${delivery.webhookId} was deleted, dropping delivery ${deliveryId}`);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      // DNS may have changed since registration, so registered URLs are checked on every attempt
+      if (delivery.owner) await assertPublicUrl(delivery.url);
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        redirect: 'manual',
+        dispatcher: delivery.owner ? publicDispatcher : undefined,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Launchium-Webhooks/1.0',
+          'X-Launchium-Event': delivery.event,
+          'X-Launchium-Delivery': delivery.id,
+          'X-Launchium-Timestamp': String(timestamp),
+          'X-Launchium-Signature': signWebhookPayload(secret, timestamp, body)
+        },
+        body,
+        signal: AbortSignal.timeout(config.webhookTimeoutMs)
+      });
+      statusCode = response.status;
+      await response.body?.cancel();
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+
+    const attempts = [
+      ...delivery.attempts,
+      { attemptedAt: startedAt, durationMs: Date.now() - startedAt, statusCode, error }
+    ];
+    const retryDelayMs = config.webhookRetryBaseMs * 2 ** (attempts.length - 1);
+    const status: WebhookDeliveryStatus = !error
+      ? 'delivered'
+      : attempts.length >= config.webhookMaxAttempts
+        ? 'failed'
+        : 'pending';
+
+    await this.store.saveDelivery({
+      ...delivery,
+      status,
+      attempts,
+      nextAttemptAt: status === 'pending' ? Date.now() + retryDelayMs : undefined,
+      updatedAt: Date.now()
+    });
+
+    if (status === 'delivered') {
+      logger.info(`🪝 ${delivery.event} delivered to ${delivery.url}`);
+    } else if (status === 'failed') {
+      logger.error(`❌ ${delivery.event} to ${delivery.url} failed after ${attempts.length} attempts: ${error}`);
+    } else {
+      logger.warn(`⏳ ${delivery.event} to ${delivery.url} failed (${error}), retrying in ${retryDelayMs}ms`);
+      this.schedule(delivery.id, retryDelayMs);
+    }
+  }
+
+  // Null once the webhook has been deleted
+  private async getSecret(delivery: WebhookDelivery): Promise<string | null> {
+    if (delivery.webhookId === CONFIG_WEBHOOK_ID) return config.webhookSecret;
+    const webhooks = await this.store.listWebhooks();
+    return webhooks.find((webhook) => webhook.id === delivery.webhookId)?.secret ?? null;
+  }
+
+  private async getOwnWebhook(owner: string, webhookId: string): Promise<Webhook> {
+    const webhook = (await this.store.listWebhooks()).find(
+      (item) => item.id === webhookId && item.owner === owner
+    );
+    if (!webhook) {
+      throw new ApiError(`Webhook ${webhookId} not found`, 'WEBHOOK_NOT_FOUND', 404);
+    }
+    return webhook;
+  }
+
+  // Settled deliveries older than config.webhookLogTtlMs leave the log
+  private async pruneDeliveries(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const cutoff = Date.now() - config.webhookLogTtlMs;
+    const expired = deliveries.filter((delivery) => delivery.status !== 'pending' && delivery.updatedAt < cutoff);
+    await Promise.all(expired.map((delivery) => this.store.deleteDelivery(delivery.id)));
+    return deliveries.filter((delivery) => !expired.includes(delivery));
+  }
+}
+
+let sharedService: WebhookService | null = null;
+
+// One set of retry timers per process
+export function getWebhookService(): WebhookService {
+  if (!sharedService) {
+    sharedService = new WebhookService();
+  }
+  return sharedService;
+}
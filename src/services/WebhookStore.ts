@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index';
+import { Webhook, WebhookDelivery } from '../models/index';
+import { readJsonFile, removeFile, writeJsonFileAtomic } from '../utils/jsonFile';
+
+// Registered webhooks and the log of their deliveries
+export interface WebhookStore {
+  listWebhooks(): Promise<Webhook[]>;
+  saveWebhook(webhook: Webhook): Promise<void>;
+  deleteWebhook(webhookId: string): Promise<void>;
+  getDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+  listDeliveries(): Promise<WebhookDelivery[]>;
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  deleteDelivery(deliveryId: string): Promise<void>;
+}
+
+// Webhooks in one JSON document, deliveries one document each, under dataDir/webhooks
+export class FileWebhookStore implements WebhookStore {
+  constructor(private directory: string) {}
+
+  private get webhooksPath(): string {
+    return path.join(this.directory, 'webhooks.json');
+  }
+
+  private deliveryPath(deliveryId: string): string {
+    if (!/^[A-Za-z0-9-]+$/.test(deliveryId)) {
+      throw new Error('Invalid delivery ID');
+    }
+    return path.join(this.directory, 'deliveries', `${deliveryId}.json`);
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    return (await readJsonFile<Webhook[]>(this.webhooksPath)) ?? [];
+  }
+
+  async saveWebhook(webhook: Webhook): Promise<void> {
+    const webhooks = (await this.listWebhooks()).filter((item) => item.id !== webhook.id);
+    await writeJsonFileAtomic(this.webhooksPath, [...webhooks, webhook]);
+  }
+
+  async deleteWebhook(webhookId: string): Promise<void> {
+    const webhooks = await this.listWebhooks();
+    await writeJsonFileAtomic(
+      this.webhooksPath,
+      webhooks.filter((webhook) => webhook.id !== webhookId)
+    );
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    return readJsonFile<WebhookDelivery>(this.deliveryPath(deliveryId));
+  }
+
+  async listDeliveries(): Promise<WebhookDelivery[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.directory, 'deliveries'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const deliveries = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.getDelivery(path.basename(file, '.json')))
+    );
+    return deliveries.filter((delivery): delivery is WebhookDelivery => delivery !== null);
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await writeJsonFileAtomic(this.deliveryPath(delivery.id), delivery);
+  }
+
+  async deleteDelivery(deliveryId: string): Promise<void> {
+    await removeFile(this.deliveryPath(deliveryId));
+  }
+}
+
+let sharedStore: WebhookStore | null = null;
+
+export function getWebhookStore(): WebhookStore {
+  if (!sharedStore) {
+    sharedStore = new FileWebhookStore(path.join(config.dataDir, 'webhooks'));
+  }
+  return sharedStore;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { parseAirdropCsv, resolveAirdropRecipients } from './airdrop';
+
+const [alice, bob] = [0, 1].map(() => Keypair.generate().publicKey.toBase58());
+
+describe('parseAirdropCsv', () => {
+  it('reads wallet,amount lines and skips the header, comments and blank lines', () => {
+    const csv = ['wallet,amount', `${alice},10`, '', '# team', `${bob};2.5`, `  ${alice}\t1  `].join('\r\n');
+
+    expect(parseAirdropCsv(csv)).toEqual([
+      { wallet: alice, amount: '10' },
+      { wallet: bob, amount: '2.5' },
+      { wallet: alice, amount: '1' },
+    ]);
+  });
+
+  it('reports every malformed line with its line number', () => {
+    expect(() => parseAirdropCsv(`${alice},10\n${bob}\n\n${alice},1,2`)).toThrow(
+      'Line 2: expected "wallet,amount"; Line 4: expected "wallet,amount"'
+    );
+  });
+});
+
+describe('resolveAirdropRecipients', () => {
+  it('converts amounts to base units and skips repeated wallets after the first', () => {
+    const { recipients, skipped } = resolveAirdropRecipients(
+      [
+        { wallet: alice, amount: '1.5' },
+        { wallet: bob, amount: '2' },
+        { wallet: alice, amount: '3' },
+      ],
+      6
+    );
+
+    expect(recipients.map(({ wallet, amount }) => [wallet.toBase58(), amount])).toEqual([
+      [alice, 1_500_000n],
+      [bob, 2_000_000n],
+    ]);
+    expect(skipped).toEqual([{ wallet: alice, amount: '3', reason: 'duplicate' }]);
+  });
+
+  it('reports every invalid wallet and amount at once', () => {
+    expect(() =>
+      resolveAirdropRecipients(
+        [
+          { wallet: 'nope', amount: '1' },
+          { wallet: alice, amount: '0' },
+          { wallet: bob, amount: 'abc' },
+        ],
+        6
+      )
+    ).toThrow(/^Recipient 1: invalid wallet address nope; Recipient 2: amount must be greater than zero; Recipient 3: /);
+  });
+
+  it('summarizes errors beyond the first ten', () => {
+    const inputs = Array.from({ length: 12 }, () => ({ wallet: 'nope', amount: '1' }));
+    expect(() => resolveAirdropRecipients(inputs, 6)).toThrow(/Recipient 10: invalid wallet address nope; \.\.\.and 2 more$/);
+  });
+
+  it('rejects empty and oversized lists', () => {
+    expect(() => resolveAirdropRecipients([], 6)).toThrow('Airdrop needs at least one recipient');
+    const inputs = Array.from({ length: 1001 }, () => ({ wallet: alice, amount: '1' }));
+    expect(() => resolveAirdropRecipients(inputs, 6)).toThrow('Airdrop supports at most 1000 recipients per request');
+  });
+});
@@ -0,0 +1,103 @@
+import { PublicKey } from '@solana/web3.js';
+import { AirdropRecipientInput, AirdropSkippedEntry } from '../models/index';
+import { parseTokenAmount, validatePublicKey } from './validation';
+
+export const MAX_AIRDROP_RECIPIENTS = 1000;
+
+// Problems reported back per request; the rest are summarized as a count
+const MAX_REPORTED_ERRORS = 10;
+
+export interface ResolvedAirdropRecipient {
+  wallet: PublicKey;
+  amount: bigint; // base units
+}
+
+/**
+ * Reads `wallet,amount` lines. Blank lines, `#` comments and a header row
+ * are ignored; semicolons and tabs are accepted as separators.
+ */
+export function parseAirdropCsv(csv: string): AirdropRecipientInput[] {
+  const recipients: AirdropRecipientInput[] = [];
+  const errors: string[] = [];
+
+  csv.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const fields = line.split(/[,;\t]/).map((field) => field.trim());
+    if (recipients.length === 0 && errors.length === 0 && /^(wallet|address|recipient)/i.test(fields[0])) {
+      return;
+    }
+    if (fields.length !== 2) {
+      errors.push(`Line ${index + 1}: expected "wallet,amount"`);
+      return;
+    }
+    recipients.push({ wallet: fields[0], amount: fields[1] });
+  });
+
+  throwIfErrors(errors);
+  return recipients;
+}
+
+/**
+ * Validates every address and amount, then drops repeated wallets (the first
+ * entry wins). All problems are reported at once so a list can be fixed in
+ * one pass.
+ */
+export function resolveAirdropRecipients(
+  inputs: AirdropRecipientInput[],
+  decimals: number
+): { recipients: ResolvedAirdropRecipient[]; skipped: AirdropSkippedEntry[] } {
+  if (inputs.length === 0) {
+    throw new Error('Airdrop needs at least one recipient');
+  }
+  if (inputs.length > MAX_AIRDROP_RECIPIENTS) {
+    throw new Error(`Airdrop supports at most ${MAX_AIRDROP_RECIPIENTS} recipients per request`);
+  }
+
+  const recipients: ResolvedAirdropRecipient[] = [];
+  const skipped: AirdropSkippedEntry[] = [];
+  const seen = new Set<string>();
+  const errors: string[] = [];
+
+  inputs.forEach((input, index) => {
+    const wallet = validatePublicKey(String(input.wallet ?? ''));
+    if (!wallet) {
+      errors.push(`Recipient ${index + 1}: invalid wallet address ${input.wallet}`);
+      return;
+    }
+
+    let amount: bigint;
+    try {
+      amount = parseTokenAmount(String(input.amount ?? ''), decimals);
+    } catch (error) {
+      errors.push(`Recipient ${index + 1}: ${(error as Error).message}`);
+      return;
+    }
+    if (amount === 0n) {
+      errors.push(`Recipient ${index + 1}: amount must be greater than zero`);
+      return;
+    }
+
+    const key = wallet.toBase58();
+    if (seen.has(key)) {
+      skipped.push({ wallet: key, amount: String(input.amount), reason: 'duplicate' });
+      return;
+    }
+    seen.add(key);
+    recipients.push({ wallet, amount });
+  });
+
+  throwIfErrors(errors);
+  return { recipients, skipped };
+}
+
+function throwIfErrors(errors: string[]): void {
+  if (errors.length === 0) return;
+
+  const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+  if (errors.length > reported.length) {
+    reported.push(`...and ${errors.length - reported.length} more`);
+  }
+  throw new Error(reported.join('; '));
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { resolveAllocations } from './allocation';
+
+const creator = Keypair.generate().publicKey.toBase58();
+const [alice, bob, carol] = [0, 1, 2].map(() => Keypair.generate().publicKey.toBase58());
+
+describe('resolveAllocations', () => {
+  it('gives the whole supply to the creator without allocations', () => {
+    const [allocation] = resolveAllocations(undefined, creator, 1_000n, 0);
+    expect(allocation).toMatchObject({ amount: 1_000n, percentage: 100 });
+    expect(allocation.wallet.toBase58()).toBe(creator);
+  });
+
+  it('mixes amounts and percentages that add up to the supply exactly', () => {
+    const resolved = resolveAllocations(
+      [
+        { wallet: alice, amount: '250.5' },
+        { wallet: bob, percentage: 74.95 },
+      ],
+      creator,
+      1_000_000_000_000n,
+      9
+    );
+
+    expect(resolved.map((allocation) => allocation.amount)).toEqual([250_500_000_000n, 749_500_000_000n]);
+    expect(resolved.map((allocation) => allocation.percentage)).toEqual([25.05, 74.95]);
+  });
+
+  it('gives the rounding dust to the last percentage allocation', () => {
+    const resolved = resolveAllocations(
+      [
+        { wallet: alice, percentage: 33.3333 },
+        { wallet: bob, percentage: 33.3334 },
+        { wallet: carol, percentage: 33.3333 },
+      ],
+      creator,
+      10n,
+      0
+    );
+
+    expect(resolved.map((allocation) => allocation.amount)).toEqual([3n, 3n, 4n]);
+  });
+
+  it('leaves amount allocations alone when handing out dust', () => {
+    const resolved = resolveAllocations(
+      [
+        { wallet: alice, percentage: 35 },
+        { wallet: bob, amount: '3' },
+        { wallet: carol, percentage: 35 },
+      ],
+      creator,
+      10n,
+      0
+    );
+
+    expect(resolved.map((allocation) => allocation.amount)).toEqual([3n, 3n, 4n]);
+  });
+
+  it('rejects allocations that do not add up to the supply', () => {
+    expect(() =>
+      resolveAllocations(
+        [
+          { wallet: alice, percentage: 50 },
+          { wallet: bob, percentage: 49.9999 },
+        ],
+        creator,
+        1_000_000n,
+        0
+      )
+    ).toThrow('Allocations must add up to the total supply of 1000000 tokens');
+  });
+
+  it('rejects a percentage that rounds down to nothing', () => {
+    expect(() =>
+      resolveAllocations(
+        [
+          { wallet: alice, percentage: 0.0001 },
+          { wallet: bob, percentage: 99.9999 },
+        ],
+        creator,
+        10n,
+        0
+      )
+    ).toThrow(`Allocation for ${alice} must be greater than zero`);
+  });
+
+  it('rejects invalid, duplicate and ambiguous allocations', () => {
+    expect(() => resolveAllocations([{ wallet: 'nope', percentage: 100 }], creator, 10n, 0)).toThrow(
+      'Invalid allocation wallet: nope'
+    );
+    expect(() =>
+      resolveAllocations(
+        [
+          { wallet: alice, percentage: 50 },
+          { wallet: alice, percentage: 50 },
+        ],
+        creator,
+        10n,
+        0
+      )
+    ).toThrow(`Duplicate allocation wallet: ${alice}`);
+    expect(() => resolveAllocations([{ wallet: alice, percentage: 100, amount: '10' }], creator, 10n, 0)).toThrow(
+      'needs either a percentage or an amount'
+    );
+    expect(() => resolveAllocations([{ wallet: alice, percentage: 99.99999 }], creator, 10n, 0)).toThrow(
+      'at most 4 decimal places'
+    );
+  });
+});
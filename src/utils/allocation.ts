@@ -0,0 +1,112 @@
+import { PublicKey } from '@solana/web3.js';
+import { TokenAllocation, VestingConfig } from '../models/index';
+import { formatTokenAmount, parseTokenAmount } from './validation';
+import { validateVestingConfig } from './vestingProgram';
+
+export const MAX_ALLOCATIONS = 10;
+
+// Percentages are handled in millionths of the supply (4 decimal places of a percent)
+const PERCENT_SCALE = 10_000;
+const SUPPLY_SCALE = 100n * BigInt(PERCENT_SCALE);
+
+export interface ResolvedAllocation {
+  wallet: PublicKey;
+  label?: string;
+  amount: bigint; // base units
+  percentage: number;
+  vesting?: VestingConfig;
+}
+
+/**
+ * Turns requested allocations into exact base-unit amounts. Amount and
+ * percentage shares must add up to the supply exactly; rounding dust from
+ * percentages goes to the last percentage allocation. Without allocations the
+ * whole supply goes to the creator.
+ */
+export function resolveAllocations(
+  allocations: TokenAllocation[] | undefined,
+  userWallet: string,
+  supply: bigint,
+  decimals: number
+): ResolvedAllocation[] {
+  if (!allocations || allocations.length === 0) {
+    return [{ wallet: new PublicKey(userWallet), amount: supply, percentage: 100 }];
+  }
+  if (allocations.length > MAX_ALLOCATIONS) {
+    throw new Error(`At most ${MAX_ALLOCATIONS} allocations are supported`);
+  }
+
+  const seen = new Set<string>();
+  const shares = allocations.map((allocation) => {
+    let wallet: PublicKey;
+    try {
+      wallet = new PublicKey(allocation.wallet);
+    } catch {
+      throw new Error(`Invalid allocation wallet: ${allocation.wallet}`);
+    }
+    if (seen.has(wallet.toBase58())) {
+      throw new Error(`Duplicate allocation wallet: ${wallet.toBase58()}`);
+    }
+    seen.add(wallet.toBase58());
+    if (allocation.vesting) {
+      validateVestingConfig(allocation.vesting);
+    }
+
+    const hasAmount = allocation.amount !== undefined && allocation.amount !== null;
+    const hasPercentage = allocation.percentage !== undefined && allocation.percentage !== null;
+    if (hasAmount === hasPercentage) {
+      throw new Error(`Allocation for ${wallet.toBase58()} needs either a percentage or an amount`);
+    }
+
+    if (hasAmount) {
+      return { allocation, wallet, amount: parseTokenAmount(String(allocation.amount), decimals) };
+    }
+
+    const scaled = Number(allocation.percentage) * PERCENT_SCALE;
+    if (!Number.isFinite(scaled) || Math.abs(scaled - Math.round(scaled)) > 1e-6) {
+      throw new Error(`Allocation percentage for ${wallet.toBase58()} allows at most 4 decimal places`);
+    }
+    return { allocation, wallet, millionths: BigInt(Math.round(scaled)) };
+  });
+
+  // Exact check: amounts + supply * percentages == supply
+  const fixedTotal = shares.reduce((total, share) => total + (share.amount ?? 0n), 0n);
+  const millionthsTotal = shares.reduce((total, share) => total + (share.millionths ?? 0n), 0n);
+  if (fixedTotal * SUPPLY_SCALE + supply * millionthsTotal !== supply * SUPPLY_SCALE) {
+    throw new Error(
+      `Allocations must add up to the total supply of ${formatTokenAmount(supply, decimals)} tokens`
+    );
+  }
+
+  const resolved = shares.map((share) => ({
+    wallet: share.wallet,
+    label: share.allocation.label,
+    vesting: share.allocation.vesting,
+    amount: share.amount ?? (supply * share.millionths!) / SUPPLY_SCALE,
+  }));
+
+  const dust = supply - resolved.reduce((total, allocation) => total + allocation.amount, 0n);
+  if (dust > 0n) {
+    const last = shares.map((share) => share.millionths !== undefined).lastIndexOf(true);
+    resolved[last].amount += dust;
+  }
+
+  return resolved.map((allocation) => {
+    if (allocation.amount <= 0n) {
+      throw new Error(`Allocation for ${allocation.wallet.toBase58()} must be greater than zero`);
+    }
+    return {
+      ...allocation,
+      percentage: Number((allocation.amount * SUPPLY_SCALE) / supply) / PERCENT_SCALE,
+    };
+  });
+}
+
+export function describeAllocation(allocation: ResolvedAllocation, decimals: number): string {
+  const recipient = allocation.label || allocation.wallet.toBase58();
+  const description = `${recipient}: ${formatTokenAmount(allocation.amount, decimals)} (${allocation.percentage}%)`;
+  if (!allocation.vesting) return description;
+
+  const days = (seconds: number) => `${Math.round((seconds / 86400) * 10) / 10}d`;
+  return `${description}, vesting ${days(allocation.vesting.durationSeconds)} with ${days(allocation.vesting.cliffSeconds)} cliff`;
+}
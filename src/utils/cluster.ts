@@ -0,0 +1,38 @@
+import { config } from '../config/index';
+import { SolanaCluster } from '../models/index';
+import { ApiError } from './errors';
+
+export const SOLANA_CLUSTERS = Object.keys(config.clusterRpcUrls) as SolanaCluster[];
+
+// The deployment's cluster when none is given; others must be listed in SOLANA_CLUSTERS
+export function resolveCluster(cluster?: string): SolanaCluster {
+  if (!cluster || cluster === config.cluster) return config.cluster;
+
+  const requested = cluster as SolanaCluster;
+  if (!config.allowedClusters.includes(requested)) {
+    throw new ApiError(`Cluster ${cluster} is not enabled on this server`, 'CLUSTER_NOT_ENABLED');
+  }
+  if (!config.clusterRpcUrls[requested]) {
+    throw new ApiError(`No RPC URL is configured for cluster ${cluster}`, 'CLUSTER_NOT_CONFIGURED');
+  }
+  return requested;
+}
+
+export function getRpcUrl(cluster: SolanaCluster = config.cluster): string {
+  return config.clusterRpcUrls[cluster];
+}
+
+// One instance per cluster, created on first use
+export function getClusterInstance<T>(
+  instances: Map<SolanaCluster, T>,
+  cluster: string | undefined,
+  create: (cluster: SolanaCluster) => T
+): T {
+  const resolved = resolveCluster(cluster);
+  let instance = instances.get(resolved);
+  if (!instance) {
+    instance = create(resolved);
+    instances.set(resolved, instance);
+  }
+  return instance;
+}
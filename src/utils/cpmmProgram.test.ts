@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { CPMM_LOCKED_LP_AMOUNT, getInitialLpAmount } from './cpmmProgram';
+
+const U64_MAX = 2n ** 64n - 1n;
+
+// getInitialLpAmount(value, 1) exposes the integer square root of values above 100^2
+const isqrt = (value: bigint) => getInitialLpAmount(value, 1n) + CPMM_LOCKED_LP_AMOUNT;
+
+describe('getInitialLpAmount', () => {
+  it('mints the square root of the product minus the locked liquidity', () => {
+    expect(getInitialLpAmount(100n, 10_000n)).toBe(900n);
+    expect(getInitialLpAmount(2n, 10n ** 18n)).toBe(1_414_213_562n - CPMM_LOCKED_LP_AMOUNT);
+  });
+
+  it('mints nothing when the pool holds no more than the locked liquidity', () => {
+    expect(getInitialLpAmount(100n, 100n)).toBe(0n);
+    expect(getInitialLpAmount(10n, 10n)).toBe(0n);
+    expect(getInitialLpAmount(0n, 10n ** 18n)).toBe(0n);
+  });
+
+  it('takes exact integer square roots beyond floating point precision', () => {
+    expect(getInitialLpAmount(U64_MAX, U64_MAX)).toBe(U64_MAX - CPMM_LOCKED_LP_AMOUNT);
+    // (2^64 - 1)(2^64 + 1) = 2^128 - 1, which rounds up to 2^128 as a double
+    expect(getInitialLpAmount(U64_MAX, U64_MAX + 2n)).toBe(U64_MAX - CPMM_LOCKED_LP_AMOUNT);
+  });
+
+  it('rounds square roots down', () => {
+    for (const value of [10_200n, 10_201n, 10_202n, U64_MAX, 10n ** 30n - 1n, 10n ** 30n, 10n ** 30n + 1n]) {
+      const root = isqrt(value);
+      expect(root * root <= value && (root + 1n) * (root + 1n) > value, String(value)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  PublicKey,
+  SYSVAR_RENT_PUBKEY,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { config } from '../config/index';
+
+// Anchor discriminator of Raydium CPMM `initialize`
+const INITIALIZE_DISCRIMINATOR = Buffer.from([175, 175, 109, 31, 13, 152, 155, 237]);
+
+// Liquidity the program keeps out of the creator's LP tokens, locked in the pool forever
+export const CPMM_LOCKED_LP_AMOUNT = 100n;
+
+export interface CpmmPoolAddresses {
+  ammConfig: PublicKey;
+  authority: PublicKey;
+  pool: PublicKey;
+  lpMint: PublicKey;
+  token0Mint: PublicKey; // the pool orders its mints by address
+  token1Mint: PublicKey;
+  token0Vault: PublicKey;
+  token1Vault: PublicKey;
+  observation: PublicKey;
+}
+
+export function getCpmmAmmConfigAddress(index: number = config.cpmmConfigIndex): PublicKey {
+  const seed = Buffer.alloc(2);
+  seed.writeUInt16BE(index, 0);
+  return PublicKey.findProgramAddressSync([Buffer.from('amm_config'), seed], config.cpmmProgramId)[0];
+}
+
+// Pool accounts are all program addresses derived from the two mints and the fee tier
+export function getCpmmPoolAddresses(mintA: PublicKey, mintB: PublicKey): CpmmPoolAddresses {
+  const programId = config.cpmmProgramId;
+  const [token0Mint, token1Mint] =
+    Buffer.compare(mintA.toBuffer(), mintB.toBuffer()) < 0 ? [mintA, mintB] : [mintB, mintA];
+  const ammConfig = getCpmmAmmConfigAddress();
+  const find = (seeds: Buffer[]) => PublicKey.findProgramAddressSync(seeds, programId)[0];
+
+  const pool = find([Buffer.from('pool'), ammConfig.toBuffer(), token0Mint.toBuffer(), token1Mint.toBuffer()]);
+  return {
+    ammConfig,
+    authority: find([Buffer.from('vault_and_lp_mint_auth_seed')]),
+    pool,
+    lpMint: find([Buffer.from('pool_lp_mint'), pool.toBuffer()]),
+    token0Mint,
+    token1Mint,
+    token0Vault: find([Buffer.from('pool_vault'), pool.toBuffer(), token0Mint.toBuffer()]),
+    token1Vault: find([Buffer.from('pool_vault'), pool.toBuffer(), token1Mint.toBuffer()]),
+    observation: find([Buffer.from('observation'), pool.toBuffer()]),
+  };
+}
+
+// LP tokens minted to the creator: sqrt(amount0 * amount1) minus the locked amount
+export function getInitialLpAmount(amount0: bigint, amount1: bigint): bigint {
+  const liquidity = isqrt(amount0 * amount1);
+  return liquidity > CPMM_LOCKED_LP_AMOUNT ? liquidity - CPMM_LOCKED_LP_AMOUNT : 0n;
+}
+
+function isqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = BigInt(Math.floor(Math.sqrt(Number(value))));
+  while (x * x > value) x--;
+  while ((x + 1n) * (x + 1n) <= value) x++;
+  return x;
+}
+
+/**
+ * Creates the pool and deposits both amounts from the creator's token
+ * accounts. The program creates the creator's LP token account and charges
+ * the fee tier's pool creation fee in lamports. SPL Token mints only.
+ */
+export function createCpmmInitializeInstruction(
+  creator: PublicKey,
+  addresses: CpmmPoolAddresses,
+  amount0: bigint,
+  amount1: bigint,
+  openTime = 0n
+): TransactionInstruction {
+  const data = Buffer.alloc(8 + 24);
+  INITIALIZE_DISCRIMINATOR.copy(data, 0);
+  data.writeBigUInt64LE(amount0, 8);
+  data.writeBigUInt64LE(amount1, 16);
+  data.writeBigUInt64LE(openTime, 24);
+
+  return new TransactionInstruction({
+    programId: config.cpmmProgramId,
+    keys: [
+      { pubkey: creator, isSigner: true, isWritable: true },
+      { pubkey: addresses.ammConfig, isSigner: false, isWritable: false },
+      { pubkey: addresses.authority, isSigner: false, isWritable: false },
+      { pubkey: addresses.pool, isSigner: false, isWritable: true },
+      { pubkey: addresses.token0Mint, isSigner: false, isWritable: false },
+      { pubkey: addresses.token1Mint, isSigner: false, isWritable: false },
+      { pubkey: addresses.lpMint, isSigner: false, isWritable: true },
+      { pubkey: getAssociatedTokenAddressSync(addresses.token0Mint, creator), isSigner: false, isWritable: true },
+      { pubkey: getAssociatedTokenAddressSync(addresses.token1Mint, creator), isSigner: false, isWritable: true },
+      { pubkey: getAssociatedTokenAddressSync(addresses.lpMint, creator), isSigner: false, isWritable: true },
+      { pubkey: addresses.token0Vault, isSigner: false, isWritable: true },
+      { pubkey: addresses.token1Vault, isSigner: false, isWritable: true },
+      { pubkey: config.cpmmPoolFeeAccount, isSigner: false, isWritable: true },
+      { pubkey: addresses.observation, isSigner: false, isWritable: true },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}
@@ -0,0 +1,88 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+  verify
+} from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { config } from '../config/index';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// DER prefix that wraps a raw 32-byte ed25519 public key as SPKI
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Falls back to a key derived from the master wallet so no extra secret is required
+function getEncryptionKey(): Buffer {
+  const secret = config.sessionEncryptionKey || `launchium-session:${config.masterWalletSecret}`;
+  return createHash('sha256').update(secret).digest();
+}
+
+// Returns base64(iv | auth tag | ciphertext)
+export function encryptSecret(plain: Uint8Array): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return Buffer.concat([iv, authTag, ciphertext]).toString('base64');
+}
+
+export function decryptSecret(encrypted: string): Uint8Array {
+  const data = Buffer.from(encrypted, 'base64');
+  const iv = data.subarray(0, IV_LENGTH);
+  const authTag = data.subarray(IV_LENGTH, IV_LENGTH + 16);
+  const ciphertext = data.subarray(IV_LENGTH + 16);
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+// Unsigned slots are all zeroes and never verify
+export function verifyEd25519Signature(
+  message: Uint8Array,
+  signature: Uint8Array,
+  publicKey: PublicKey
+): boolean {
+  if (!signature || signature.every((byte) => byte === 0)) return false;
+
+  return verify(
+    null,
+    message,
+    {
+      key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+      format: 'der',
+      type: 'spki'
+    },
+    signature
+  );
+}
+
+// API keys are only kept as this hash, which also identifies what a key registered
+export function getApiKeyOwner(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 32);
+}
+
+function isListedKey(apiKey: string, keys: string[]): boolean {
+  const hash = createHash('sha256').update(apiKey).digest();
+  return keys.some((key) => timingSafeEqual(hash, createHash('sha256').update(key).digest()));
+}
+
+export function isWebhookApiKey(apiKey: string): boolean {
+  return isListedKey(apiKey, [...config.webhookApiKeys, ...config.webhookOperatorKeys]);
+}
+
+export function isWebhookOperatorKey(apiKey: string): boolean {
+  return isListedKey(apiKey, config.webhookOperatorKeys);
+}
+
+// `sha256=` and the hex HMAC of "timestamp.body", so receivers can also reject stale requests
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
@@ -0,0 +1,25 @@
+// Error with a machine-readable code and HTTP status, rendered by api/errorHandler
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Transaction that failed simulation or on-chain; carries program logs when available
+export class TransactionError extends ApiError {
+  constructor(
+    message: string,
+    code: string,
+    public readonly signature?: string,
+    public readonly logs: string[] = [],
+    statusCode: number = 400
+  ) {
+    super(message, code, statusCode);
+    this.name = 'TransactionError';
+  }
+}
@@ -0,0 +1,60 @@
+import { config } from '../config/index';
+import { ExplorerName, SolanaCluster } from '../models/index';
+import { getRpcUrl } from './cluster';
+
+export type ExplorerPage = 'tx' | 'address' | 'token';
+
+const EXPLORER_HOSTS: Record<ExplorerName, string> = {
+  solscan: 'https://solscan.io',
+  'solana-explorer': 'https://explorer.solana.com',
+  solanafm: 'https://solana.fm',
+};
+
+// Solana Explorer and SolanaFM show tokens on their address page
+const PAGE_PATHS: Record<ExplorerName, Record<ExplorerPage, string>> = {
+  solscan: { tx: 'tx', address: 'account', token: 'token' },
+  'solana-explorer': { tx: 'tx', address: 'address', token: 'address' },
+  solanafm: { tx: 'tx', address: 'address', token: 'address' },
+};
+
+// SolanaFM names its clusters and cannot take an RPC URL, so custom clusters use its localnet
+const SOLANAFM_CLUSTERS: Record<SolanaCluster, string> = {
+  'mainnet-beta': 'mainnet-alpha',
+  devnet: 'devnet-alpha',
+  testnet: 'testnet-solana',
+  localnet: 'localnet-solana',
+  custom: 'localnet-solana',
+};
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+// Remote RPC URLs often carry an API key, so only local ones are put in links
+function isLocalRpcUrl(rpcUrl: string): boolean {
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(rpcUrl).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function getClusterQuery(explorer: ExplorerName, cluster: SolanaCluster): string {
+  if (explorer === 'solanafm') return `?cluster=${SOLANAFM_CLUSTERS[cluster]}`;
+  if (cluster === 'mainnet-beta') return '';
+  if (cluster === 'devnet' || cluster === 'testnet') return `?cluster=${cluster}`;
+
+  const rpcUrl = getRpcUrl(cluster);
+  return isLocalRpcUrl(rpcUrl) ? `?cluster=custom&customUrl=${encodeURIComponent(rpcUrl)}` : '?cluster=custom';
+}
+
+/**
+ * Link to a transaction signature, account or token mint on the configured
+ * explorer, pointed at the cluster it lives on.
+ */
+export function getExplorerUrl(
+  page: ExplorerPage,
+  value: string,
+  cluster: SolanaCluster = config.cluster,
+  explorer: ExplorerName = config.explorer
+): string {
+  return `${EXPLORER_HOSTS[explorer]}/${PAGE_PATHS[explorer][page]}/${value}${getClusterQuery(explorer, cluster)}`;
+}
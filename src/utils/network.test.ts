@@ -0,0 +1,66 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { assertPublicUrl, isPublicAddress, publicDispatcher } from './network';
+
+describe('isPublicAddress', () => {
+  it('accepts public IPv4 and IPv6 addresses', () => {
+    expect(isPublicAddress('8.8.8.8')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+    expect(isPublicAddress('::ffff:8.8.8.8')).toBe(true);
+  });
+
+  it('rejects loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.0.0.5', '172.16.3.4', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('rejects NAT64 and 6to4 addresses, which can carry any IPv4 address', () => {
+    expect(isPublicAddress('64:ff9b::7f00:1')).toBe(false);
+    expect(isPublicAddress('64:ff9b:1::a00:1')).toBe(false);
+    expect(isPublicAddress('2002:7f00:1::1')).toBe(false);
+  });
+
+  it('rejects anything that is not an IP address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('rejects other protocols and private hosts', async () => {
+    await expect(assertPublicUrl('http://8.8.8.8/')).rejects.toMatchObject({ code: 'URL_NOT_ALLOWED' });
+    await expect(assertPublicUrl('https://127.0.0.1/')).rejects.toMatchObject({ code: 'URL_NOT_ALLOWED' });
+    await expect(assertPublicUrl('https://[64:ff9b::a9fe:a9fe]/')).rejects.toMatchObject({ code: 'URL_NOT_ALLOWED' });
+    await expect(assertPublicUrl('not a url')).rejects.toMatchObject({ code: 'URL_NOT_ALLOWED' });
+  });
+
+  it('returns the parsed URL of a public address', async () => {
+    await expect(assertPublicUrl('https://8.8.8.8/hook')).resolves.toMatchObject({ hostname: '8.8.8.8' });
+  });
+});
+
+describe('publicDispatcher', () => {
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => res.end('internal'));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('refuses to connect when a name resolves to a private address at request time', async () => {
+    await expect(fetch(`http://localhost:${port}/`)).resolves.toMatchObject({ status: 200 });
+    await expect(fetch(`http://localhost:${port}/`, { dispatcher: publicDispatcher })).rejects.toMatchObject({
+      cause: { message: expect.stringContaining('not a public address') }
+    });
+  });
+});
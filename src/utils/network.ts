@@ -0,0 +1,120 @@
+import { BlockList, LookupFunction, isIP } from 'net';
+import { LookupAddress, lookup, promises as dns } from 'dns';
+import { Agent } from 'undici';
+import { ApiError } from './errors';
+
+// Loopback, private, link-local, shared, reserved and multicast ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64, which can reach any IPv4 address
+  ['64:ff9b:1::', 48],
+  ['2002::', 16], // 6to4, which embeds an IPv4 address
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are judged by the IPv4 address they carry
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves like dns.lookup but fails for hosts with a non-public address
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, '', 0);
+
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const refused = Object.assign(new Error(`Host ${hostname} is not a public address`), { code: 'ENOTFOUND' });
+      return callback(refused, '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Dispatcher for fetches of user-supplied URLs. Addresses are checked when
+ * the connection is made, so a host that passed assertPublicUrl cannot be
+ * re-pointed at an internal address before the request (DNS rebinding).
+ */
+export const publicDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Parses a URL the server is about to request and rejects other protocols
+ * and hosts that resolve to loopback, private or link-local addresses, so
+ * user-supplied URLs cannot reach internal services. Callers fetch it through
+ * publicDispatcher and should not follow redirects, which would skip this check.
+ */
+export async function assertPublicUrl(value: string, protocols: string[] = ['https:']): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ApiError('Invalid URL', 'URL_NOT_ALLOWED');
+  }
+  if (!protocols.includes(url.protocol)) {
+    throw new ApiError(`Only ${protocols.join(', ')} URLs are allowed`, 'URL_NOT_ALLOWED');
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new ApiError(`Host ${host} could not be resolved`, 'URL_NOT_ALLOWED');
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new ApiError(`Host ${host} is not a public address`, 'URL_NOT_ALLOWED');
+  }
+  return url;
+}
+
+// Reads a response body as text, failing once it grows past maxBytes
+export async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    throw new Error(`Response body exceeds ${maxBytes} bytes`);
+  }
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
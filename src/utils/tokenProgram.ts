@@ -0,0 +1,195 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountState,
+  ExtensionType,
+  createInitializeDefaultAccountStateInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  getAccountLen,
+  getAccountTypeOfMintType,
+  getMintLen,
+} from '@solana/spl-token';
+import { config } from '../config/index';
+import { Token2022Extensions, TokenProgramType } from '../models/index';
+import { U64_MAX, validatePublicKey } from './validation';
+
+export function isToken2022(tokenProgram?: TokenProgramType): boolean {
+  return tokenProgram === 'token-2022';
+}
+
+export function getTokenProgramId(tokenProgram?: TokenProgramType): PublicKey {
+  return isToken2022(tokenProgram) ? config.token2022ProgramId : config.tokenProgramId;
+}
+
+export function getTokenStandardName(tokenProgram?: TokenProgramType): string {
+  return isToken2022(tokenProgram) ? 'Token-2022' : 'SPL Token';
+}
+
+export function getExtensionTypes(extensions?: Token2022Extensions): ExtensionType[] {
+  const types: ExtensionType[] = [];
+  if (!extensions) return types;
+
+  if (extensions.transferFee) types.push(ExtensionType.TransferFeeConfig);
+  if (extensions.interestBearing) types.push(ExtensionType.InterestBearingConfig);
+  if (extensions.nonTransferable) types.push(ExtensionType.NonTransferable);
+  if (extensions.permanentDelegate) types.push(ExtensionType.PermanentDelegate);
+  if (extensions.defaultAccountState) types.push(ExtensionType.DefaultAccountState);
+
+  return types;
+}
+
+// Mint account size including the space for every selected extension
+export function getMintSpace(extensions?: Token2022Extensions): number {
+  return getMintLen(getExtensionTypes(extensions));
+}
+
+// Token account size; Token-2022 ATAs hold ImmutableOwner plus the account side of mint extensions
+export function getTokenAccountSpace(tokenProgram?: TokenProgramType, extensions?: Token2022Extensions): number {
+  if (!isToken2022(tokenProgram)) return ACCOUNT_SIZE;
+
+  const accountTypes = getExtensionTypes(extensions)
+    .map(getAccountTypeOfMintType)
+    .filter((type) => type !== ExtensionType.Uninitialized);
+  return getAccountLen([...accountTypes, ExtensionType.ImmutableOwner]);
+}
+
+// Frozen-by-default mints keep a freeze authority so holders can be thawed
+export function requiresFreezeAuthority(extensions?: Token2022Extensions): boolean {
+  return extensions?.defaultAccountState === 'frozen';
+}
+
+export function validateTokenExtensions(
+  tokenProgram?: TokenProgramType,
+  extensions?: Token2022Extensions
+): void {
+  if (tokenProgram && tokenProgram !== 'spl' && tokenProgram !== 'token-2022') {
+    throw new Error("Token program must be 'spl' or 'token-2022'");
+  }
+
+  if (getExtensionTypes(extensions).length === 0) return;
+
+  if (!isToken2022(tokenProgram)) {
+    throw new Error("Token extensions require tokenProgram 'token-2022'");
+  }
+
+  const { transferFee, interestBearing, nonTransferable, permanentDelegate, defaultAccountState } =
+    extensions!;
+
+  if (transferFee) {
+    const bps = Number(transferFee.feeBasisPoints);
+    if (!Number.isInteger(bps) || bps < 0 || bps > 10_000) {
+      throw new Error('Transfer fee must be between 0 and 10000 basis points');
+    }
+    if (!/^\d+$/.test(String(transferFee.maxFee ?? ''))) {
+      throw new Error('Transfer fee maxFee must be a whole number of base units');
+    }
+    if (BigInt(transferFee.maxFee) > U64_MAX) {
+      throw new Error('Transfer fee maxFee exceeds the u64 limit');
+    }
+  }
+
+  if (interestBearing) {
+    const rate = Number(interestBearing.rateBps);
+    if (!Number.isInteger(rate) || rate < -32_768 || rate > 32_767) {
+      throw new Error('Interest rate must be an integer between -32768 and 32767 basis points');
+    }
+  }
+
+  if (nonTransferable && transferFee) {
+    throw new Error('Non-transferable tokens cannot have a transfer fee');
+  }
+
+  if (permanentDelegate && !validatePublicKey(permanentDelegate)) {
+    throw new Error('Invalid permanent delegate address');
+  }
+
+  if (defaultAccountState && !['initialized', 'frozen'].includes(defaultAccountState)) {
+    throw new Error("Default account state must be 'initialized' or 'frozen'");
+  }
+}
+
+/**
+ * Extension initializers for a Token-2022 mint. These must run after the
+ * mint account is allocated and before InitializeMint.
+ */
+export function createInitializeExtensionInstructions(
+  mint: PublicKey,
+  creator: PublicKey,
+  extensions: Token2022Extensions | undefined,
+  programId: PublicKey
+): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+  if (!extensions) return instructions;
+
+  if (extensions.transferFee) {
+    instructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        mint,
+        creator, // fee config authority
+        creator, // withdraw withheld authority
+        Number(extensions.transferFee.feeBasisPoints),
+        BigInt(extensions.transferFee.maxFee),
+        programId
+      )
+    );
+  }
+
+  if (extensions.interestBearing) {
+    instructions.push(
+      createInitializeInterestBearingMintInstruction(
+        mint,
+        creator, // rate authority
+        Number(extensions.interestBearing.rateBps),
+        programId
+      )
+    );
+  }
+
+  if (extensions.nonTransferable) {
+    instructions.push(createInitializeNonTransferableMintInstruction(mint, programId));
+  }
+
+  if (extensions.permanentDelegate) {
+    instructions.push(
+      createInitializePermanentDelegateInstruction(
+        mint,
+        new PublicKey(extensions.permanentDelegate),
+        programId
+      )
+    );
+  }
+
+  if (extensions.defaultAccountState) {
+    instructions.push(
+      createInitializeDefaultAccountStateInstruction(
+        mint,
+        extensions.defaultAccountState === 'frozen' ? AccountState.Frozen : AccountState.Initialized,
+        programId
+      )
+    );
+  }
+
+  return instructions;
+}
+
+export function describeExtensions(extensions?: Token2022Extensions): string[] {
+  const names: string[] = [];
+  if (!extensions) return names;
+
+  if (extensions.transferFee) {
+    names.push(`Transfer Fee (${extensions.transferFee.feeBasisPoints} bps)`);
+  }
+  if (extensions.interestBearing) {
+    names.push(`Interest Bearing (${extensions.interestBearing.rateBps} bps)`);
+  }
+  if (extensions.nonTransferable) names.push('Non-Transferable');
+  if (extensions.permanentDelegate) names.push('Permanent Delegate');
+  if (extensions.defaultAccountState) {
+    names.push(`Default Account State (${extensions.defaultAccountState})`);
+  }
+
+  return names;
+}
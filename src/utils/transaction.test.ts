@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Keypair, SystemProgram, VersionedTransaction } from '@solana/web3.js';
+import { TransactionVersionOption } from '../models/index';
+import { buildTransaction, serializeTransactionMessage, verifySignedTransaction } from './transaction';
+
+const payer = Keypair.generate();
+const cosigner = Keypair.generate();
+const blockhash = Keypair.generate().publicKey.toBase58();
+
+function transfer(lamports: number) {
+  return SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: cosigner.publicKey, lamports });
+}
+
+function cosignedTransfer() {
+  return SystemProgram.transfer({ fromPubkey: cosigner.publicKey, toPubkey: payer.publicKey, lamports: 1 });
+}
+
+// The prepared message and the wallet's signed copy of it, base64 encoded
+function prepare(version: TransactionVersionOption, instructions = [transfer(1), cosignedTransfer()]) {
+  const transaction = buildTransaction(instructions, payer.publicKey, blockhash, version);
+  const preparedMessage = serializeTransactionMessage(transaction);
+  const signed = VersionedTransaction.deserialize(
+    transaction instanceof VersionedTransaction
+      ? transaction.serialize()
+      : transaction.serialize({ requireAllSignatures: false, verifySignatures: false })
+  );
+  signed.sign([payer, cosigner]);
+  return { preparedMessage, signed };
+}
+
+function encode(transaction: VersionedTransaction): string {
+  return Buffer.from(transaction.serialize()).toString('base64');
+}
+
+describe('verifySignedTransaction', () => {
+  it.each<TransactionVersionOption>(['legacy', 0])('accepts the prepared %s message signed by the payer', (version) => {
+    const { preparedMessage, signed } = prepare(version);
+    const verified = verifySignedTransaction(encode(signed), preparedMessage, payer.publicKey);
+    expect(Buffer.from(verified.signatures[0])).toEqual(Buffer.from(signed.signatures[0]));
+  });
+
+  it('rejects bytes that are not a transaction', () => {
+    const { preparedMessage } = prepare('legacy');
+    expect(() => verifySignedTransaction('AAAA', preparedMessage, payer.publicKey)).toThrow(
+      expect.objectContaining({ code: 'INVALID_TRANSACTION' })
+    );
+  });
+
+  it('rejects a transaction with an added instruction', () => {
+    const { preparedMessage } = prepare('legacy');
+    const { signed } = prepare('legacy', [transfer(1), cosignedTransfer(), transfer(1_000_000)]);
+    expect(() => verifySignedTransaction(encode(signed), preparedMessage, payer.publicKey)).toThrow(
+      expect.objectContaining({ code: 'TRANSACTION_INSTRUCTIONS_MODIFIED' })
+    );
+  });
+
+  it('rejects a transaction whose instructions were changed', () => {
+    const { preparedMessage } = prepare('legacy');
+    const { signed } = prepare('legacy', [transfer(1_000_000), cosignedTransfer()]);
+    expect(() => verifySignedTransaction(encode(signed), preparedMessage, payer.publicKey)).toThrow(
+      expect.objectContaining({ code: 'TRANSACTION_MISMATCH' })
+    );
+  });
+
+  it('rejects a transaction paid by someone else', () => {
+    const { preparedMessage, signed } = prepare('legacy');
+    expect(() => verifySignedTransaction(encode(signed), preparedMessage, cosigner.publicKey)).toThrow(
+      expect.objectContaining({ code: 'INVALID_SIGNER' })
+    );
+  });
+
+  it('rejects a missing or forged signature', () => {
+    const { preparedMessage, signed } = prepare(0);
+
+    const unsignedByPayer = VersionedTransaction.deserialize(signed.serialize());
+    unsignedByPayer.signatures[0] = new Uint8Array(64);
+    expect(() => verifySignedTransaction(encode(unsignedByPayer), preparedMessage, payer.publicKey)).toThrow(
+      expect.objectContaining({ code: 'INVALID_SIGNER' })
+    );
+
+    const forgedCosigner = VersionedTransaction.deserialize(signed.serialize());
+    forgedCosigner.signatures[1] = Keypair.generate().secretKey.slice(0, 64);
+    expect(() => verifySignedTransaction(encode(forgedCosigner), preparedMessage, payer.publicKey)).toThrow(
+      expect.objectContaining({ code: 'INVALID_SIGNATURE' })
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { TransactionVersionOption } from '../models/index';
+import { verifyEd25519Signature } from './crypto';
+import { ApiError } from './errors';
+
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+export function buildTransaction(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  recentBlockhash: string,
+  version: TransactionVersionOption = 'legacy'
+): AnyTransaction {
+  if (version === 0) {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash,
+      instructions
+    }).compileToV0Message();
+    return new VersionedTransaction(message);
+  }
+
+  const transaction = new Transaction().add(...instructions);
+  transaction.recentBlockhash = recentBlockhash;
+  transaction.feePayer = payer;
+  return transaction;
+}
+
+export function serializeTransactionMessage(transaction: AnyTransaction): Buffer {
+  return transaction instanceof VersionedTransaction
+    ? Buffer.from(transaction.message.serialize())
+    : transaction.serializeMessage();
+}
+
+export function serializeUnsignedTransaction(transaction: AnyTransaction): string {
+  const bytes =
+    transaction instanceof VersionedTransaction
+      ? transaction.serialize()
+      : transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+  return Buffer.from(bytes).toString('base64');
+}
+
+// Legacy and v0 wire formats both deserialize as a VersionedTransaction
+export function deserializeTransaction(base64: string): VersionedTransaction {
+  return VersionedTransaction.deserialize(Buffer.from(base64, 'base64'));
+}
+
+// Instructions of a transaction without address lookup tables
+export function getTransactionInstructions(transaction: VersionedTransaction): TransactionInstruction[] {
+  return TransactionMessage.decompile(transaction.message).instructions;
+}
+
+// The fee payer's signature doubles as the transaction ID
+export function getTransactionSignature(transaction: VersionedTransaction): string {
+  return bs58.encode(transaction.signatures[0]);
+}
+
+// Whether the instructions fit in one transaction once every signature is added
+export function fitsInTransaction(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  version: TransactionVersionOption = 'legacy'
+): boolean {
+  try {
+    const transaction = buildTransaction(instructions, payer, PublicKey.default.toBase58(), version);
+    const signatureCount =
+      transaction instanceof VersionedTransaction
+        ? transaction.message.header.numRequiredSignatures
+        : transaction.compileMessage().header.numRequiredSignatures;
+    // Signature count prefix (one byte below 128 signers) plus the signatures
+    return serializeTransactionMessage(transaction).length + 1 + signatureCount * 64 <= PACKET_DATA_SIZE;
+  } catch {
+    // Oversized messages fail to encode
+    return false;
+  }
+}
+
+/**
+ * Decodes a wallet-signed transaction and checks it is exactly the prepared
+ * message, paid and signed by `signer`, with every required signature valid.
+ */
+export function verifySignedTransaction(
+  signedTransactionBase64: string,
+  preparedMessage: Buffer,
+  signer: PublicKey
+): VersionedTransaction {
+  let signedTransaction: VersionedTransaction;
+  try {
+    signedTransaction = deserializeTransaction(signedTransactionBase64);
+  } catch {
+    throw new ApiError('Signed transaction could not be decoded', 'INVALID_TRANSACTION');
+  }
+
+  const signedMessage = Buffer.from(signedTransaction.message.serialize());
+
+  if (
+    VersionedMessage.deserialize(preparedMessage).compiledInstructions.length !==
+    signedTransaction.message.compiledInstructions.length
+  ) {
+    throw new ApiError(
+      'Signed transaction adds or removes instructions from the prepared transaction',
+      'TRANSACTION_INSTRUCTIONS_MODIFIED'
+    );
+  }
+  if (!signedMessage.equals(preparedMessage)) {
+    throw new ApiError(
+      'Signed transaction does not match the prepared transaction',
+      'TRANSACTION_MISMATCH'
+    );
+  }
+
+  // Account 0 is the fee payer and first signer
+  const { staticAccountKeys, header } = signedTransaction.message;
+  if (!staticAccountKeys[0].equals(signer)) {
+    throw new ApiError(`Transaction must be signed by ${signer.toBase58()}`, 'INVALID_SIGNER');
+  }
+  for (let i = 0; i < header.numRequiredSignatures; i++) {
+    if (!verifyEd25519Signature(signedMessage, signedTransaction.signatures[i], staticAccountKeys[i])) {
+      throw new ApiError(
+        i === 0
+          ? `Transaction must be signed by ${signer.toBase58()}`
+          : 'Transaction signature verification failed',
+        i === 0 ? 'INVALID_SIGNER' : 'INVALID_SIGNATURE'
+      );
+    }
+  }
+
+  return signedTransaction;
+}
@@ -1,5 +1,9 @@
 import { PublicKey } from '@solana/web3.js';
 
+// Largest amount an SPL mint can hold, in base units
+export const U64_MAX = (1n << 64n) - 1n;
+export const MAX_TOKEN_DECIMALS = 9;
+
 export function validatePublicKey(pubkeyStr: string): PublicKey | null {
   try {
     return new PublicKey(pubkeyStr);
@@ -20,4 +24,45 @@ export function formatTokenAmount(amount: bigint, decimals: number): string {
     const trimmed = fractionStr.replace(/0+$/, '');
     return `${whole}.${trimmed}`;
   }
-} 
\ No newline at end of file
+}
+
+export function toRawTokenAmount(supply: string | bigint, decimals: number): bigint {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_TOKEN_DECIMALS) {
+    throw new Error(`Decimals must be an integer between 0 and ${MAX_TOKEN_DECIMALS}`);
+  }
+
+  const supplyStr = supply.toString().trim();
+  if (!/^\d+$/.test(supplyStr)) {
+    throw new Error('Supply must be a whole number of tokens');
+  }
+
+  const wholeTokens = BigInt(supplyStr);
+  if (wholeTokens === 0n) {
+    throw new Error('Supply must be greater than zero');
+  }
+
+  const rawAmount = wholeTokens * 10n ** BigInt(decimals);
+  if (rawAmount > U64_MAX) {
+    const maxWholeTokens = U64_MAX / 10n ** BigInt(decimals);
+    throw new Error(
+      `Supply exceeds the u64 limit: at most ${maxWholeTokens.toString()} tokens with ${decimals} decimals`
+    );
+  }
+
+  return rawAmount;
+}
+
+// Whole tokens with an optional fraction of at most `decimals` digits, in base units
+export function parseTokenAmount(amount: string, decimals: number): bigint {
+  const match = amount.trim().match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Token amount ${amount} has more than ${decimals} decimal places`);
+  }
+
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
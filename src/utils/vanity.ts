@@ -0,0 +1,58 @@
+import { VanityOptions } from '../models/index';
+
+// Characters that can appear in a base58 address (no 0, O, I or l)
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]*$/;
+
+export function normalizeVanityOptions(vanity: VanityOptions): Required<VanityOptions> {
+  return { prefix: vanity.prefix ?? '', suffix: vanity.suffix ?? '' };
+}
+
+export function validateVanityOptions(vanity: VanityOptions, maxLength: number): void {
+  const { prefix, suffix } = normalizeVanityOptions(vanity);
+  for (const [name, value] of [['prefix', prefix], ['suffix', suffix]]) {
+    if (!BASE58_PATTERN.test(value)) {
+      throw new Error(`Vanity ${name} may only use base58 characters (no 0, O, I or l)`);
+    }
+  }
+  if (!prefix && !suffix) {
+    throw new Error('Vanity address needs a prefix or a suffix');
+  }
+  if (prefix.length + suffix.length > maxLength) {
+    throw new Error(`Vanity prefix and suffix can be at most ${maxLength} characters combined`);
+  }
+}
+
+export function matchesVanity(address: string, vanity: VanityOptions): boolean {
+  const { prefix, suffix } = normalizeVanityOptions(vanity);
+  return address.startsWith(prefix) && address.endsWith(suffix);
+}
+
+// Share of random 32-byte keys whose address starts with `prefix`
+function getPrefixProbability(prefix: string): number {
+  // Each leading '1' encodes a leading zero byte
+  const ones = prefix.match(/^1*/)![0].length;
+  const rest = prefix.slice(ones);
+  const keySpace = 1n << BigInt(8 * (32 - ones));
+  if (!rest) return 256 ** -ones;
+
+  // Addresses are big-endian base58, so lengths vary and the first character
+  // is heavily skewed: count every length the prefix can start
+  let value = 0n;
+  for (const char of rest) {
+    value = value * 58n + BigInt(BASE58_ALPHABET.indexOf(char));
+  }
+  let matching = 0n;
+  for (let scale = 1n; value * scale < keySpace; scale *= 58n) {
+    const end = (value + 1n) * scale;
+    matching += (end < keySpace ? end : keySpace) - value * scale;
+  }
+
+  return (256 ** -ones * Number(matching)) / Number(keySpace);
+}
+
+// Expected number of keypairs to try; suffix characters are close to uniform
+export function getExpectedAttempts(vanity: VanityOptions): number {
+  const { prefix, suffix } = normalizeVanityOptions(vanity);
+  return Math.ceil(BASE58_ALPHABET.length ** suffix.length / getPrefixProbability(prefix));
+}
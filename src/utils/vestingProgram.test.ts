@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { VestingConfig } from '../models/index';
+import { buildVestingSchedule } from './vestingProgram';
+
+function schedule(amount: bigint, vesting: VestingConfig, defaultStartTime = 1_000) {
+  return buildVestingSchedule(amount, vesting, defaultStartTime).map((release) => [release.releaseTime, release.amount]);
+}
+
+describe('buildVestingSchedule', () => {
+  it('releases linearly every interval from the default start time', () => {
+    expect(schedule(1_000n, { cliffSeconds: 0, durationSeconds: 100, releaseIntervalSeconds: 25 })).toEqual([
+      [1_025n, 250n],
+      [1_050n, 250n],
+      [1_075n, 250n],
+      [1_100n, 250n],
+    ]);
+  });
+
+  it('releases everything vested before the cliff at the cliff', () => {
+    expect(
+      schedule(1_000n, { cliffSeconds: 30, durationSeconds: 100, releaseIntervalSeconds: 25, startTime: 5_000 })
+    ).toEqual([
+      [5_030n, 300n],
+      [5_050n, 200n],
+      [5_075n, 250n],
+      [5_100n, 250n],
+    ]);
+  });
+
+  it('releases the whole amount at the end when the cliff is the duration', () => {
+    expect(schedule(1_000n, { cliffSeconds: 100, durationSeconds: 100, releaseIntervalSeconds: 25 })).toEqual([
+      [1_100n, 1_000n],
+    ]);
+  });
+
+  it('keeps rounding from losing tokens', () => {
+    const releases = buildVestingSchedule(10n, { cliffSeconds: 0, durationSeconds: 3, releaseIntervalSeconds: 1 }, 0);
+    expect(releases.map((release) => release.amount)).toEqual([3n, 3n, 4n]);
+    expect(releases.reduce((total, release) => total + release.amount, 0n)).toBe(10n);
+  });
+
+  it('rejects schedules with too many releases or an invalid config', () => {
+    expect(() =>
+      buildVestingSchedule(1_000n, { cliffSeconds: 0, durationSeconds: 49, releaseIntervalSeconds: 1 }, 0)
+    ).toThrow('Vesting schedule has 49 releases, at most 48 are supported');
+    expect(() =>
+      buildVestingSchedule(1_000n, { cliffSeconds: 0, durationSeconds: 10, releaseIntervalSeconds: 20 }, 0)
+    ).toThrow('Vesting release interval cannot be longer than the duration');
+    expect(() =>
+      buildVestingSchedule(1_000n, { cliffSeconds: 20, durationSeconds: 10, releaseIntervalSeconds: 5 }, 0)
+    ).toThrow('Vesting cliff must be between 0 and the duration');
+  });
+});
@@ -0,0 +1,225 @@
+import { createHash } from 'crypto';
+import {
+  PublicKey,
+  SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_RENT_PUBKEY,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { config } from '../config/index';
+import { VestingConfig } from '../models/index';
+
+// Create carries every release in one instruction, which bounds the schedule length
+export const MAX_VESTING_RELEASES = 48;
+
+// Account layout: destination token account, mint, is_initialized, then the releases
+const HEADER_SIZE = 65;
+const RELEASE_SIZE = 16;
+export const VESTING_MINT_OFFSET = 32;
+
+// Instruction tags
+const VestingInstruction = {
+  Init: 0,
+  Create: 1,
+  Unlock: 2,
+} as const;
+
+export interface VestingScheduleEntry {
+  releaseTime: bigint; // unix seconds
+  amount: bigint; // base units
+}
+
+export interface VestingAddresses {
+  seeds: Buffer; // 31 derivation bytes + bump, passed to every instruction
+  vestingAccount: PublicKey;
+  vestingTokenAccount: PublicKey;
+}
+
+export interface VestingAccountData {
+  destinationTokenAccount: PublicKey;
+  mint: PublicKey;
+  isInitialized: boolean;
+  releases: VestingScheduleEntry[];
+}
+
+/**
+ * Vesting contracts are keyed by mint and destination token account, so the
+ * seeds (needed to unlock) can be recomputed from the on-chain header alone.
+ */
+export function getVestingAddresses(
+  mint: PublicKey,
+  destinationTokenAccount: PublicKey
+): VestingAddresses {
+  const seed = createHash('sha256')
+    .update('launchium-vesting')
+    .update(mint.toBuffer())
+    .update(destinationTokenAccount.toBuffer())
+    .digest()
+    .subarray(0, 31);
+  const [vestingAccount, bump] = PublicKey.findProgramAddressSync([seed], config.vestingProgramId);
+
+  return {
+    seeds: Buffer.concat([seed, Buffer.from([bump])]),
+    vestingAccount,
+    vestingTokenAccount: getAssociatedTokenAddressSync(mint, vestingAccount, true),
+  };
+}
+
+export function validateVestingConfig(vesting: VestingConfig): void {
+  const { cliffSeconds, durationSeconds, releaseIntervalSeconds } = vesting;
+  if (!Number.isInteger(durationSeconds) || durationSeconds <= 0) {
+    throw new Error('Vesting duration must be a positive number of seconds');
+  }
+  if (!Number.isInteger(releaseIntervalSeconds) || releaseIntervalSeconds <= 0) {
+    throw new Error('Vesting release interval must be a positive number of seconds');
+  }
+  if (releaseIntervalSeconds > durationSeconds) {
+    throw new Error('Vesting release interval cannot be longer than the duration');
+  }
+  if (!Number.isInteger(cliffSeconds) || cliffSeconds < 0 || cliffSeconds > durationSeconds) {
+    throw new Error('Vesting cliff must be between 0 and the duration');
+  }
+  if (vesting.startTime !== undefined && (!Number.isInteger(vesting.startTime) || vesting.startTime < 0)) {
+    throw new Error('Vesting start time must be a unix timestamp in seconds');
+  }
+}
+
+/**
+ * Linear unlock sampled every release interval. Whatever vested before the
+ * cliff is released at the cliff; the last release lands at start + duration.
+ */
+export function buildVestingSchedule(
+  amount: bigint,
+  vesting: VestingConfig,
+  defaultStartTime: number
+): VestingScheduleEntry[] {
+  validateVestingConfig(vesting);
+  const start = vesting.startTime ?? defaultStartTime;
+  const { cliffSeconds, durationSeconds, releaseIntervalSeconds } = vesting;
+
+  const offsets: number[] = [];
+  for (let offset = releaseIntervalSeconds; offset < durationSeconds; offset += releaseIntervalSeconds) {
+    if (offset >= cliffSeconds) offsets.push(offset);
+  }
+  if (cliffSeconds > 0 && offsets[0] !== cliffSeconds && cliffSeconds < durationSeconds) {
+    offsets.unshift(cliffSeconds);
+  }
+  offsets.push(durationSeconds);
+
+  if (offsets.length > MAX_VESTING_RELEASES) {
+    throw new Error(
+      `Vesting schedule has ${offsets.length} releases, at most ${MAX_VESTING_RELEASES} are supported; use a longer release interval`
+    );
+  }
+
+  let released = 0n;
+  return offsets.map((offset) => {
+    const vested = (amount * BigInt(offset)) / BigInt(durationSeconds);
+    const release = { releaseTime: BigInt(start + offset), amount: vested - released };
+    released = vested;
+    return release;
+  });
+}
+
+export function getVestingAccountSize(releaseCount: number): number {
+  return HEADER_SIZE + releaseCount * RELEASE_SIZE;
+}
+
+// Allocates the vesting account; the payer funds its rent
+export function createVestingInitInstruction(
+  payer: PublicKey,
+  addresses: VestingAddresses,
+  releaseCount: number
+): TransactionInstruction {
+  const data = Buffer.alloc(1 + 32 + 4);
+  data.writeUInt8(VestingInstruction.Init, 0);
+  addresses.seeds.copy(data, 1);
+  data.writeUInt32LE(releaseCount, 33);
+
+  return new TransactionInstruction({
+    programId: config.vestingProgramId,
+    keys: [
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: addresses.vestingAccount, isSigner: false, isWritable: true },
+    ],
+    data,
+  });
+}
+
+// Writes the schedule and moves its total from the source account into escrow
+export function createVestingCreateInstruction(
+  addresses: VestingAddresses,
+  mint: PublicKey,
+  destinationTokenAccount: PublicKey,
+  sourceOwner: PublicKey,
+  sourceTokenAccount: PublicKey,
+  releases: VestingScheduleEntry[]
+): TransactionInstruction {
+  const data = Buffer.alloc(1 + 32 * 3 + releases.length * RELEASE_SIZE);
+  data.writeUInt8(VestingInstruction.Create, 0);
+  addresses.seeds.copy(data, 1);
+  mint.toBuffer().copy(data, 33);
+  destinationTokenAccount.toBuffer().copy(data, 65);
+  releases.forEach((release, index) => {
+    data.writeBigUInt64LE(release.releaseTime, 97 + index * RELEASE_SIZE);
+    data.writeBigUInt64LE(release.amount, 105 + index * RELEASE_SIZE);
+  });
+
+  return new TransactionInstruction({
+    programId: config.vestingProgramId,
+    keys: [
+      { pubkey: config.tokenProgramId, isSigner: false, isWritable: false },
+      { pubkey: addresses.vestingAccount, isSigner: false, isWritable: true },
+      { pubkey: addresses.vestingTokenAccount, isSigner: false, isWritable: true },
+      { pubkey: sourceOwner, isSigner: true, isWritable: true },
+      { pubkey: sourceTokenAccount, isSigner: false, isWritable: true },
+    ],
+    data,
+  });
+}
+
+// Releases everything due to the destination token account; anyone may call it
+export function createVestingUnlockInstruction(
+  addresses: VestingAddresses,
+  destinationTokenAccount: PublicKey
+): TransactionInstruction {
+  const data = Buffer.alloc(1 + 32);
+  data.writeUInt8(VestingInstruction.Unlock, 0);
+  addresses.seeds.copy(data, 1);
+
+  return new TransactionInstruction({
+    programId: config.vestingProgramId,
+    keys: [
+      { pubkey: config.tokenProgramId, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: addresses.vestingAccount, isSigner: false, isWritable: true },
+      { pubkey: addresses.vestingTokenAccount, isSigner: false, isWritable: true },
+      { pubkey: destinationTokenAccount, isSigner: false, isWritable: true },
+    ],
+    data,
+  });
+}
+
+export function decodeVestingAccount(data: Buffer): VestingAccountData {
+  if (data.length < HEADER_SIZE || (data.length - HEADER_SIZE) % RELEASE_SIZE !== 0) {
+    throw new Error('Not a vesting account');
+  }
+
+  const releases: VestingScheduleEntry[] = [];
+  for (let offset = HEADER_SIZE; offset < data.length; offset += RELEASE_SIZE) {
+    releases.push({
+      releaseTime: data.readBigUInt64LE(offset),
+      amount: data.readBigUInt64LE(offset + 8),
+    });
+  }
+
+  return {
+    destinationTokenAccount: new PublicKey(data.subarray(0, 32)),
+    mint: new PublicKey(data.subarray(VESTING_MINT_OFFSET, VESTING_MINT_OFFSET + 32)),
+    isInitialized: data[64] === 1,
+    releases,
+  };
+}
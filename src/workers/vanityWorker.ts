@@ -0,0 +1,69 @@
+import { parentPort } from 'worker_threads';
+import { generateKeyPairSync } from 'crypto';
+import bs58 from 'bs58';
+import { matchesVanity } from '../utils/vanity';
+
+// Keypairs per slice; progress is reported and stop requests are seen between slices
+const SLICE_SIZE = 2000;
+
+// DER encodings of ed25519 keys end with the raw 32-byte key
+const SPKI_KEY_OFFSET = 12;
+const PKCS8_SEED_OFFSET = 16;
+
+export interface VanityWorkerJob {
+  jobId: number;
+  prefix: string;
+  suffix: string;
+}
+
+export type VanityWorkerRequest =
+  | ({ type: 'start' } & VanityWorkerJob)
+  | { type: 'stop'; jobId: number };
+
+// durationMs is time spent grinding, so the rate excludes worker startup and idle time
+export type VanityWorkerMessage =
+  | { type: 'progress'; jobId: number; attempts: number; durationMs: number }
+  | { type: 'found'; jobId: number; attempts: number; durationMs: number; secretKey: Uint8Array };
+
+let current: VanityWorkerJob | null = null;
+
+function grind(job: VanityWorkerJob): void {
+  if (current !== job) return;
+  const startedAt = performance.now();
+
+  for (let attempt = 1; attempt <= SLICE_SIZE; attempt++) {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(SPKI_KEY_OFFSET);
+
+    if (matchesVanity(bs58.encode(rawPublicKey), job)) {
+      const seed = privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(PKCS8_SEED_OFFSET);
+      current = null;
+      parentPort!.postMessage({
+        type: 'found',
+        jobId: job.jobId,
+        attempts: attempt,
+        durationMs: performance.now() - startedAt,
+        secretKey: new Uint8Array(Buffer.concat([seed, rawPublicKey]))
+      } satisfies VanityWorkerMessage);
+      return;
+    }
+  }
+
+  parentPort!.postMessage({
+    type: 'progress',
+    jobId: job.jobId,
+    attempts: SLICE_SIZE,
+    durationMs: performance.now() - startedAt
+  } satisfies VanityWorkerMessage);
+  setImmediate(() => grind(job));
+}
+
+parentPort?.on('message', (message: VanityWorkerRequest) => {
+  if (message.type === 'start') {
+    const job = { jobId: message.jobId, prefix: message.prefix, suffix: message.suffix };
+    current = job;
+    setImmediate(() => grind(job));
+  } else if (message.type === 'stop' && current?.jobId === message.jobId) {
+    current = null;
+  }
+});